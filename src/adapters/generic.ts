@@ -0,0 +1,39 @@
+import type { PlatformAdapter, WebhookRequest } from './types';
+import { createChatEvent, type ChatEvent, type ChatEventInput } from '../events/chatEvent';
+import { asString, eventNameOf, isObject } from './helpers';
+import { contentTEXT, processIaResponse } from '../utils';
+
+/**
+ * Cualquier otro origen: búsqueda de campos por nombre en el cuerpo,
+ * data y payload (processIaResponse)
+ */
+export class GenericAdapter implements PlatformAdapter {
+  readonly platform = 'generic' as const;
+
+  detect(): boolean {
+    return true;
+  }
+
+  parse({ body }: WebhookRequest): ChatEvent {
+    const fields = processIaResponse(body);
+    const { user, msg } = contentTEXT(fields);
+    const data: Record<string, any> = isObject(body?.data) ? body.data : {};
+
+    const event: ChatEventInput = {
+      platform: this.platform,
+      eventName: eventNameOf(body?.eventName),
+      user: {
+        id: fields.id,
+        username: fields.uniqueId ?? (fields.username !== user ? fields.username : undefined),
+        name: user,
+        avatar: asString(body?.profilePictureUrl) ?? asString(data.profilePictureUrl),
+        badges: [],
+      },
+      text: msg,
+      likes: Number(body?.likeCount ?? data.likeCount) || undefined,
+    };
+    const giftName = asString(body?.giftName) ?? asString(data.giftName);
+    if (giftName) event.gift = { name: giftName, count: Number(body?.repeatCount ?? data.repeatCount) || 1 };
+    return createChatEvent(event);
+  }
+}
@@ -0,0 +1,21 @@
+// Lectura tolerante de los campos de los payloads
+
+export function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() ? value : undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+export function asNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+export function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Nombre de evento en minúsculas ('Chat' => 'chat')
+export function eventNameOf(value: unknown, fallback = 'chat'): string {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : fallback;
+}
@@ -0,0 +1,64 @@
+import type { PlatformAdapter, WebhookRequest } from './types';
+import { createChatEvent, type ChatEvent, type ChatEventInput, type ChatUser } from '../events/chatEvent';
+import { asNumber, asString, isObject } from './helpers';
+
+// Kick-Event-Type => nombres de las plantillas
+const EVENT_NAMES: Record<string, string> = {
+  'chat.message.sent': 'chat',
+  'channel.followed': 'follow',
+  'channel.subscription.new': 'subscribe',
+  'channel.subscription.renewal': 'subscribe',
+  'channel.subscription.gifts': 'gift',
+  'kicks.gifted': 'gift',
+};
+
+// Cada evento trae al usuario en un campo distinto
+const USER_FIELDS = ['sender', 'follower', 'subscriber', 'gifter'];
+
+function userOf(body: Record<string, any>): ChatUser {
+  const field = USER_FIELDS.find(key => isObject(body[key]));
+  const user: Record<string, any> = field ? body[field] : {};
+  const badges = Array.isArray(user.identity?.badges)
+    ? user.identity.badges.map((badge: any) => asString(badge?.type)).filter((b: string | undefined): b is string => !!b)
+    : [];
+  return {
+    id: asString(user.user_id),
+    username: asString(user.channel_slug) ?? asString(user.username)?.toLowerCase(),
+    name: asString(user.username),
+    avatar: asString(user.profile_picture),
+    badges,
+  };
+}
+
+/**
+ * Webhooks de la API pública de Kick
+ */
+export class KickAdapter implements PlatformAdapter {
+  readonly platform = 'kick' as const;
+
+  detect({ headers, body }: WebhookRequest): boolean {
+    if (headers['kick-event-type']) return true;
+    return isObject(body?.broadcaster) && USER_FIELDS.some(key => isObject(body[key]) && 'channel_slug' in body[key]);
+  }
+
+  parse({ headers, body }: WebhookRequest): ChatEvent {
+    const payload: Record<string, any> = isObject(body) ? body : {};
+    const type = asString(headers['kick-event-type']) ?? (isObject(payload.sender) && 'content' in payload ? 'chat.message.sent' : '');
+
+    const event: ChatEventInput = {
+      platform: this.platform,
+      eventName: EVENT_NAMES[type] ?? (type || 'chat'),
+      user: userOf(payload),
+      text: asString(payload.content) ?? asString(payload.gift?.message),
+    };
+
+    if (type === 'channel.subscription.gifts') {
+      event.gift = { name: 'suscripciones', count: Array.isArray(payload.giftees) ? payload.giftees.length : 1 };
+    } else if (type === 'kicks.gifted' && isObject(payload.gift)) {
+      const amount = asNumber(payload.gift.amount) ?? 0;
+      event.gift = { id: asString(payload.gift.gift_id), name: asString(payload.gift.name) ?? 'kicks', count: 1 };
+      event.amount = { value: amount, currency: 'kicks' };
+    }
+    return createChatEvent(event);
+  }
+}
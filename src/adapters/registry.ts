@@ -0,0 +1,41 @@
+import type { ChatEvent } from '../events/chatEvent';
+import type { Platform, PlatformAdapter, WebhookReply, WebhookRequest } from './types';
+import { TikTokAdapter } from './tiktok';
+import { TwitchAdapter } from './twitch';
+import { YouTubeAdapter } from './youtube';
+import { KickAdapter } from './kick';
+import { GenericAdapter } from './generic';
+
+// Las plataformas con cabeceras propias van primero; generic siempre al final
+const adapters: PlatformAdapter[] = [
+  new TwitchAdapter(),
+  new KickAdapter(),
+  new YouTubeAdapter(),
+  new TikTokAdapter(),
+];
+const genericAdapter = new GenericAdapter();
+
+export function getAdapter(platform: string): PlatformAdapter | undefined {
+  const name = platform.trim().toLowerCase();
+  if (name === genericAdapter.platform) return genericAdapter;
+  return adapters.find(adapter => adapter.platform === name);
+}
+
+/**
+ * Elige el adaptador: ?platform= o la cabecera X-Platform si vienen,
+ * si no el primero que reconozca la petición y, por último, el genérico
+ */
+export function detectAdapter(request: WebhookRequest): PlatformAdapter {
+  const explicit = request.query.platform ?? request.headers['x-platform'];
+  if (explicit) {
+    const adapter = getAdapter(explicit);
+    if (adapter) return adapter;
+  }
+  return adapters.find(adapter => adapter.detect(request)) ?? genericAdapter;
+}
+
+export function normalizeWebhook(request: WebhookRequest): ChatEvent {
+  return detectAdapter(request).parse(request);
+}
+
+export type { Platform, PlatformAdapter, WebhookReply, WebhookRequest };
@@ -0,0 +1,71 @@
+import type { PlatformAdapter, WebhookRequest } from './types';
+import { createChatEvent, type ChatEvent, type ChatEventInput } from '../events/chatEvent';
+import { asNumber, asString, eventNameOf, isObject } from './helpers';
+
+// social agrupa follow y share según displayType
+function socialEventName(data: Record<string, any>): string {
+  const displayType = asString(data.displayType)?.toLowerCase() ?? '';
+  if (displayType.includes('follow')) return 'follow';
+  if (displayType.includes('share')) return 'share';
+  return 'social';
+}
+
+function badgesOf(data: Record<string, any>): string[] {
+  const badges: string[] = [];
+  if (data.isModerator) badges.push('moderator');
+  if (data.isSubscriber) badges.push('subscriber');
+  if (asNumber(data.followRole) === 2) badges.push('friend');
+  if (Array.isArray(data.userBadges)) {
+    for (const badge of data.userBadges) {
+      const name = asString(badge?.type) ?? asString(badge?.name);
+      if (name && !badges.includes(name.toLowerCase())) badges.push(name.toLowerCase());
+    }
+  }
+  return badges;
+}
+
+/**
+ * Eventos de tiktok-live-connector reenviados como { eventName, data }.
+ * Acepta los datos del usuario en la raíz de data (v1) o en data.user (v2).
+ */
+export class TikTokAdapter implements PlatformAdapter {
+  readonly platform = 'tiktok' as const;
+
+  detect({ body }: WebhookRequest): boolean {
+    const data = isObject(body?.data) ? body.data : body;
+    if (!isObject(data)) return false;
+    const user = isObject(data.user) ? data.user : data;
+    return typeof user.uniqueId === 'string' &&
+      ['profilePictureUrl', 'followRole', 'comment', 'giftId', 'likeCount', 'displayType'].some(key => key in user || key in data);
+  }
+
+  parse({ body }: WebhookRequest): ChatEvent {
+    const data: Record<string, any> = isObject(body?.data) ? body.data : isObject(body) ? body : {};
+    const user = isObject(data.user) ? { ...data, ...data.user } : data;
+    let eventName = eventNameOf(body?.eventName ?? body?.event);
+    if (eventName === 'social') eventName = socialEventName(data);
+
+    const event: ChatEventInput = {
+      platform: this.platform,
+      eventName,
+      user: {
+        id: asString(user.userId),
+        username: asString(user.uniqueId),
+        name: asString(user.nickname) ?? asString(user.uniqueId),
+        avatar: asString(user.profilePictureUrl),
+        badges: badgesOf(user),
+      },
+      text: asString(data.comment),
+      likes: asNumber(data.likeCount),
+    };
+
+    const giftName = asString(data.giftName) ?? asString(data.giftDetails?.giftName);
+    if (giftName) {
+      const count = asNumber(data.repeatCount) ?? 1;
+      event.gift = { id: asString(data.giftId), name: giftName, count };
+      const diamonds = asNumber(data.diamondCount) ?? asNumber(data.giftDetails?.diamondCount);
+      if (diamonds !== undefined) event.amount = { value: diamonds * count, currency: 'diamonds' };
+    }
+    return createChatEvent(event);
+  }
+}
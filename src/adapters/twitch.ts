@@ -0,0 +1,109 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { PlatformAdapter, WebhookReply, WebhookRequest } from './types';
+import { createChatEvent, type ChatEvent, type ChatEventInput, type ChatUser } from '../events/chatEvent';
+import { asNumber, asString, isObject } from './helpers';
+
+// Twitch recomienda descartar los mensajes con más de 10 minutos (evita reenvíos)
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000;
+
+// Tipos de suscripción de EventSub => nombres de las plantillas
+const EVENT_NAMES: Record<string, string> = {
+  'channel.chat.message': 'chat',
+  'channel.follow': 'follow',
+  'channel.subscribe': 'subscribe',
+  'channel.subscription.message': 'subscribe',
+  'channel.subscription.gift': 'gift',
+  'channel.cheer': 'gift',
+  'channel.raid': 'raid',
+};
+
+// EventSub usa prefijos distintos según el evento (chatter_user_*, user_*, from_broadcaster_user_*)
+function userOf(event: Record<string, any>): ChatUser {
+  const prefix = ['chatter_user', 'user', 'from_broadcaster_user'].find(p => `${p}_id` in event || `${p}_login` in event);
+  const badges = Array.isArray(event.badges)
+    ? event.badges.map((badge: any) => asString(badge?.set_id)).filter((b: string | undefined): b is string => !!b)
+    : [];
+  if (!prefix) return { badges };
+  return {
+    id: asString(event[`${prefix}_id`]),
+    username: asString(event[`${prefix}_login`]),
+    name: asString(event[`${prefix}_name`]) ?? asString(event[`${prefix}_login`]),
+    badges,
+  };
+}
+
+/**
+ * Firma de EventSub: HMAC-SHA256 de id + timestamp + cuerpo con el secreto de la suscripción
+ */
+export function verifyTwitchSignature(request: WebhookRequest, secret: string, now = Date.now()): boolean {
+  const id = request.headers['twitch-eventsub-message-id'];
+  const timestamp = request.headers['twitch-eventsub-message-timestamp'];
+  const signature = request.headers['twitch-eventsub-message-signature'];
+  if (!id || !timestamp || !signature || request.rawBody === undefined) return false;
+
+  const sentAt = Date.parse(timestamp);
+  if (Number.isNaN(sentAt) || Math.abs(now - sentAt) > MAX_MESSAGE_AGE_MS) return false;
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(id + timestamp + request.rawBody).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Notificaciones de Twitch EventSub.
+ * Las que llegan directamente de Twitch (con las cabeceras Twitch-Eventsub-*) solo
+ * se aceptan con el secreto configurado (TWITCH_EVENTSUB_SECRET) y la firma correcta;
+ * el desafío de verificación se responde aquí. Sin esas cabeceras se aceptan como
+ * eventos reenviados desde el websocket de EventSub, igual que el resto de plataformas.
+ */
+export class TwitchAdapter implements PlatformAdapter {
+  readonly platform = 'twitch' as const;
+
+  // secret: el de la suscripción de EventSub (por defecto TWITCH_EVENTSUB_SECRET)
+  constructor(private secret = process.env.TWITCH_EVENTSUB_SECRET) {}
+
+  detect({ headers, body }: WebhookRequest): boolean {
+    if (headers['twitch-eventsub-message-type'] || headers['twitch-eventsub-message-id']) return true;
+    return isObject(body?.subscription) && typeof body.subscription.type === 'string' && isObject(body.event);
+  }
+
+  handshake(request: WebhookRequest): WebhookReply | undefined {
+    const messageType = request.headers['twitch-eventsub-message-type'];
+    if (!messageType && !request.headers['twitch-eventsub-message-signature']) return undefined;
+
+    if (!this.secret) return { status: 403, body: 'TWITCH_EVENTSUB_SECRET is not configured' };
+    if (!verifyTwitchSignature(request, this.secret)) return { status: 403, body: 'Invalid signature' };
+
+    switch (messageType) {
+      case 'webhook_callback_verification':
+        return { status: 200, body: asString(request.body?.challenge) ?? '' };
+      case 'revocation':
+        console.warn('Twitch EventSub subscription revoked:', request.body?.subscription?.status);
+        return { status: 204 };
+      default:
+        return undefined;
+    }
+  }
+
+  parse({ headers, body }: WebhookRequest): ChatEvent {
+    const type = asString(body?.subscription?.type) ?? asString(headers['twitch-eventsub-subscription-type']) ?? '';
+    const event: Record<string, any> = isObject(body?.event) ? body.event : {};
+
+    const normalized: ChatEventInput = {
+      platform: this.platform,
+      eventName: EVENT_NAMES[type] ?? (type || 'chat'),
+      user: userOf(event),
+      text: asString(event.message?.text) ?? asString(event.message),
+      months: asNumber(event.cumulative_months),
+    };
+
+    if (type === 'channel.cheer') {
+      const bits = asNumber(event.bits) ?? 0;
+      normalized.gift = { name: 'bits', count: bits };
+      normalized.amount = { value: bits, currency: 'bits' };
+    } else if (type === 'channel.subscription.gift') {
+      normalized.gift = { name: 'suscripciones', count: asNumber(event.total) ?? 1 };
+    }
+    return createChatEvent(normalized);
+  }
+}
@@ -0,0 +1,30 @@
+import type { ChatEvent, Platform } from '../events/chatEvent';
+
+export { PLATFORMS, type Platform } from '../events/chatEvent';
+
+// Lo que llega al webhook (cabeceras en minúsculas)
+export interface WebhookRequest {
+  headers: Record<string, string | undefined>;
+  query: Record<string, string | undefined>;
+  body: any;
+  rawBody?: string; // Cuerpo tal cual llegó (para comprobar firmas)
+}
+
+// Respuesta directa a la plataforma sin procesar ningún evento
+// (desafíos de verificación, firmas inválidas...)
+export interface WebhookReply {
+  status: 200 | 204 | 403;
+  body?: string; // Texto plano
+}
+
+/**
+ * Contrato de un adaptador de plataforma
+ */
+export interface PlatformAdapter {
+  readonly platform: Platform;
+  // Si la petición viene de esta plataforma (por cabecera o por la forma del cuerpo)
+  detect(request: WebhookRequest): boolean;
+  // Respuesta antes de parsear o undefined si la petición es un evento que hay que procesar
+  handshake?(request: WebhookRequest): WebhookReply | undefined;
+  parse(request: WebhookRequest): ChatEvent;
+}
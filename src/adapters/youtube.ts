@@ -0,0 +1,65 @@
+import type { PlatformAdapter, WebhookRequest } from './types';
+import { createChatEvent, type ChatEvent, type ChatEventInput } from '../events/chatEvent';
+import { asNumber, asString, isObject } from './helpers';
+
+// snippet.type de liveChatMessages => nombres de las plantillas
+const EVENT_NAMES: Record<string, string> = {
+  textMessageEvent: 'chat',
+  superChatEvent: 'superchat',
+  superStickerEvent: 'gift',
+  newSponsorEvent: 'subscribe',
+  memberMilestoneChatEvent: 'subscribe',
+  membershipGiftingEvent: 'gift',
+};
+
+/**
+ * Recursos liveChatMessage de la YouTube Data API
+ */
+export class YouTubeAdapter implements PlatformAdapter {
+  readonly platform = 'youtube' as const;
+
+  detect({ body }: WebhookRequest): boolean {
+    if (typeof body?.kind === 'string' && body.kind.startsWith('youtube#')) return true;
+    return isObject(body?.snippet) && isObject(body?.authorDetails);
+  }
+
+  parse({ body }: WebhookRequest): ChatEvent {
+    const snippet: Record<string, any> = isObject(body?.snippet) ? body.snippet : {};
+    const author: Record<string, any> = isObject(body?.authorDetails) ? body.authorDetails : {};
+    const type = asString(snippet.type) ?? 'textMessageEvent';
+
+    const badges: string[] = [];
+    if (author.isChatOwner) badges.push('broadcaster');
+    if (author.isChatModerator) badges.push('moderator');
+    if (author.isChatSponsor) badges.push('member');
+    if (author.isVerified) badges.push('verified');
+
+    const event: ChatEventInput = {
+      platform: this.platform,
+      eventName: EVENT_NAMES[type] ?? type.toLowerCase(),
+      user: {
+        id: asString(author.channelId),
+        name: asString(author.displayName),
+        avatar: asString(author.profileImageUrl),
+        badges,
+      },
+      text: asString(snippet.textMessageDetails?.messageText)
+        ?? asString(snippet.superChatDetails?.userComment)
+        ?? asString(snippet.memberMilestoneChatDetails?.userComment)
+        ?? (type === 'textMessageEvent' ? asString(snippet.displayMessage) : undefined),
+      months: asNumber(snippet.memberMilestoneChatDetails?.memberMonth),
+    };
+
+    // Importe en micros (1.000.000 = 1 unidad de la moneda)
+    const paid = snippet.superChatDetails ?? snippet.superStickerDetails;
+    const micros = asNumber(paid?.amountMicros);
+    if (micros !== undefined) {
+      event.amount = { value: micros / 1_000_000, currency: asString(paid.currency) ?? 'USD' };
+    }
+    const sticker = asString(snippet.superStickerDetails?.superStickerMetadata?.altText);
+    if (sticker) event.gift = { id: asString(snippet.superStickerDetails.superStickerMetadata.stickerId), name: sticker, count: 1 };
+    const giftedMemberships = asNumber(snippet.membershipGiftingDetails?.giftMembershipsCount);
+    if (giftedMemberships !== undefined) event.gift = { name: 'membresías', count: giftedMemberships };
+    return createChatEvent(event);
+  }
+}
@@ -3,7 +3,7 @@
 // Tipos para las opciones de configuración
 interface ReplacementOption {
   dataKey: string;
-  defaultValue: string;
+  defaultValue: string; // Solo de referencia: si falta el dato se usa el filtro default ({x|default:"..."})
 }
 
 interface ReplacementConfig {
@@ -32,8 +32,9 @@ interface Config {
 }
 
 // Tipo para los datos de entrada
+// Admite objetos anidados para las rutas con puntos ({gift.name})
 interface ReplacementData {
-  [key: string]: string | number | undefined;
+  [key: string]: unknown;
 }
 
 // Tipo para el mapeo de reemplazos
@@ -52,6 +53,148 @@ interface ReplacementResult {
 // Tipos de entrada permitidos para el procesamiento recursivo
 type ProcessableInput = string | number | boolean | null | undefined | ProcessableInput[] | { [key: string]: ProcessableInput };
 
+// Versión de la sintaxis de plantillas: 1 = patrones sueltos ("user msg"), 2 = llaves ("{user} {msg}")
+const TEMPLATE_SYNTAX_VERSION = 2;
+
+// Nodos de una plantilla ya analizada
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "placeholder"; raw: string; path: string; filters: TemplateFilter[] }
+  | { type: "if"; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface TemplateFilter {
+  name: string;
+  arg?: string;
+}
+
+const TEMPLATE_FILTERS = ["upper", "lower", "capitalize", "trim", "default", "truncate"];
+
+// {x}, {{x}} o una llave escapada
+const TAG_REGEX = /\\\{|\{\{([^{}]*)\}\}|\{([^{}]*)\}/g;
+const PATH_REGEX = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/;
+const FILTER_REGEX = /^([a-z]+)(?::\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+)))?$/;
+
+/**
+ * Interpreta el contenido de una etiqueta ("user|upper", "#if gift", "/if")
+ */
+function parseTag(content: string, raw: string):
+  | { kind: "placeholder"; node: TemplateNode }
+  | { kind: "if"; path: string; negate: boolean }
+  | { kind: "else" | "endif" }
+  | null {
+  const tag = content.trim();
+  if (tag === "else") return { kind: "else" };
+  if (tag === "/if") return { kind: "endif" };
+
+  const condition = tag.match(/^#if\s+(!?)\s*(\S+)$/);
+  if (condition) {
+    return PATH_REGEX.test(condition[2]) ? { kind: "if", path: condition[2], negate: condition[1] === "!" } : null;
+  }
+
+  const [path, ...filterParts] = tag.split("|").map(part => part.trim());
+  if (!PATH_REGEX.test(path)) return null;
+  const filters: TemplateFilter[] = [];
+  for (const part of filterParts) {
+    const match = part.match(FILTER_REGEX);
+    if (!match || !TEMPLATE_FILTERS.includes(match[1])) return null;
+    filters.push({ name: match[1], arg: match[2] ?? match[3] ?? match[4] });
+  }
+  return { kind: "placeholder", node: { type: "placeholder", raw, path, filters } };
+}
+
+/**
+ * Analiza una plantilla. Las etiquetas que no son válidas se quedan como texto;
+ * un {#if} sin cerrar llega hasta el final de la plantilla.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Pila de condicionales abiertos: se añade a "then" o a "otherwise"
+  const stack: { node: Extract<TemplateNode, { type: "if" }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    return !top ? root : top.inElse ? top.node.otherwise : top.node.then;
+  };
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") last.value += value;
+    else nodes.push({ type: "text", value });
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_REGEX)) {
+    pushText(template.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    if (match[0] === "\\{") {
+      pushText("{");
+      continue;
+    }
+    const tag = parseTag(match[1] ?? match[2], match[0]);
+    if (!tag) {
+      pushText(match[0]);
+    } else if (tag.kind === "placeholder") {
+      current().push(tag.node);
+    } else if (tag.kind === "if") {
+      const node: TemplateNode = { type: "if", path: tag.path, negate: tag.negate, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (stack.length === 0) {
+      pushText(match[0]);
+    } else if (tag.kind === "else") {
+      stack[stack.length - 1].inElse = true;
+    } else {
+      stack.pop();
+    }
+  }
+  pushText(template.slice(lastIndex));
+  return root;
+}
+
+/**
+ * Valor en una ruta con puntos ("gift.name"). Una clave con puntos literal tiene prioridad.
+ */
+function getPath(data: unknown, path: string): unknown {
+  if (typeof data !== "object" || data === null) return undefined;
+  // Solo claves propias: {constructor} o {toString} no deben salir del prototipo
+  if (Object.hasOwn(data, path)) return (data as Record<string, unknown>)[path];
+  return path.split(".").reduce<unknown>((value, key) =>
+    typeof value === "object" && value !== null && Object.hasOwn(value, key) ? (value as Record<string, unknown>)[key] : undefined, data);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== "" && value !== false && value !== 0 && value !== "0" && value !== "false";
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return Array.isArray(value) ? value.map(toText).join(", ") : "";
+  return String(value);
+}
+
+function applyFilter(value: string, filter: TemplateFilter): string {
+  switch (filter.name) {
+    case "upper":
+      return value.toUpperCase();
+    case "lower":
+      return value.toLowerCase();
+    case "capitalize":
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    case "trim":
+      return value.trim();
+    case "default":
+      return value.trim() ? value : filter.arg ?? "";
+    case "truncate": {
+      const length = Number(filter.arg);
+      return Number.isInteger(length) && length >= 0 ? Array.from(value).slice(0, length).join("") : value;
+    }
+    default:
+      return value;
+  }
+}
+
 class ConfigurableReplacer {
   public config: Config;
 
@@ -136,33 +279,7 @@ class ConfigurableReplacer {
     data: ReplacementData,
     replacementMap: Map<string, ReplacementMapping>
   ): string {
-    let currentTextState = text;
-
-    Object.entries(this.config.replacements).forEach(([pattern, options]) => {
-      const { dataKey, defaultValue } = options;
-      const valueToReplaceWith = String(
-        data[dataKey] === undefined ? defaultValue : data[dataKey]
-      );
-
-      const trackingRegex = new RegExp(this.escapeRegExp(pattern), "g");
-      let match;
-      while ((match = trackingRegex.exec(text)) !== null) {
-        replacementMap.set(valueToReplaceWith, {
-          original: pattern,
-          dataKey: dataKey,
-          replaced: valueToReplaceWith
-        });
-      }
-      
-      const replacementPerformRegex = new RegExp(this.escapeRegExp(pattern), "g");
-      currentTextState = currentTextState.replace(replacementPerformRegex, valueToReplaceWith);
-    });
-
-    if (this.config.removeBackslashes) {
-      currentTextState = currentTextState.replace(/\\/g, "");
-    }
-
-    return currentTextState;
+    return this.render(text, data, replacementMap);
   }
 
   public replace(input: ProcessableInput, data: ReplacementData = {}): any {
@@ -194,22 +311,77 @@ class ConfigurableReplacer {
   }
 
   private replaceInString(text: string, data: ReplacementData): string {
-    let replacedText = text;
-
-    Object.entries(this.config.replacements).forEach(([pattern, options]) => {
-      const { dataKey, defaultValue } = options;
-      const replaceValue = String(
-        data[dataKey] === undefined ? defaultValue : data[dataKey]
-      );
-      const regex = new RegExp(this.escapeRegExp(pattern), "g");
-      replacedText = replacedText.replace(regex, replaceValue);
-    });
-
-    if (this.config.removeBackslashes) {
-      replacedText = replacedText.replace(/\\/g, "");
+    return this.render(text, data);
+  }
+
+  /**
+   * Sustituye los placeholders de una plantilla:
+   *   {user} o {{user}}            valor de data (o del patrón configurado en replacements)
+   *   {gift.name}                   ruta con puntos dentro de data
+   *   {msg|upper}                   filtros: upper, lower, capitalize, trim, default:"x", truncate:20
+   *   {#if gift}...{else}...{/if}   condicionales (también {#if !gift})
+   * Lo que no es un placeholder válido se deja tal cual; \{ escribe una llave literal.
+   * El texto insertado no se vuelve a procesar.
+   */
+  private render(text: string, data: ReplacementData, replacementMap?: Map<string, ReplacementMapping>): string {
+    return this.renderNodes(parseTemplate(text), data, replacementMap);
+  }
+
+  private renderNodes(nodes: TemplateNode[], data: ReplacementData, replacementMap?: Map<string, ReplacementMapping>): string {
+    let output = "";
+    for (const node of nodes) {
+      switch (node.type) {
+        case "text":
+          // Las barras se quitan del texto de la plantilla, no de los valores insertados
+          output += this.config.removeBackslashes ? node.value.replace(/\\/g, "") : node.value;
+          break;
+        case "if": {
+          const { value } = this.lookup(node.path, data);
+          const truthy = isTruthy(value) !== node.negate;
+          output += this.renderNodes(truthy ? node.then : node.otherwise, data, replacementMap);
+          break;
+        }
+        case "placeholder": {
+          const { value, dataKey } = this.lookup(node.path, data);
+          const replaced = node.filters.reduce((current, filter) => applyFilter(current, filter), toText(value));
+          replacementMap?.set(replaced, { original: node.raw, dataKey, replaced });
+          output += replaced;
+          break;
+        }
+      }
     }
+    return output;
+  }
+
+  /**
+   * Busca el valor de un placeholder: primero los patrones configurados
+   * (giftName => data.giftName, diamonds => data.diamondCount), luego la ruta en data
+   */
+  private lookup(path: string, data: ReplacementData): { value: unknown; dataKey: string } {
+    const { replacements } = this.config;
+    const key = Object.hasOwn(replacements, path) ? path : `{${path}}`;
+    const option = Object.hasOwn(replacements, key) ? replacements[key] : undefined;
+    if (option) return { value: getPath(data, option.dataKey), dataKey: option.dataKey };
+    return { value: getPath(data, path), dataKey: path };
+  }
 
-    return replacedText;
+  /**
+   * Convierte una plantilla antigua (patrones sin delimitador: "user msg")
+   * a la sintaxis con llaves ("{user} {msg}"). Solo sustituye palabras completas
+   * y no toca lo que ya está entre llaves.
+   */
+  public migrateLegacyTemplate(template: string): string {
+    // Las claves que ya tenían llaves ("{likes}") solo coincidían con llaves
+    const patterns = Object.keys(this.config.replacements)
+      .filter(key => /^[A-Za-z_$][\w$]*$/.test(key))
+      .sort((a, b) => b.length - a.length);
+    if (patterns.length === 0) return template;
+
+    const word = new RegExp(`(?<![\\w$])(${patterns.map(key => this.escapeRegExp(key)).join("|")})(?![\\w$])`, "g");
+    return template
+      .split(/(\{\{[^{}]*\}\}|\{[^{}]*\})/)
+      .map((part, index) => index % 2 === 1 ? part : part.replace(word, "{$1}"))
+      .join("");
   }
 
   private escapeRegExp(string: string): string {
@@ -220,6 +392,7 @@ class ConfigurableReplacer {
 export default ConfigurableReplacer;
 export { 
   ConfigurableReplacer,
+  TEMPLATE_SYNTAX_VERSION,
 };
 export type { 
   ConfigOptions, 
@@ -0,0 +1,255 @@
+// Modelo común de los eventos del chat (webhook, cola de mensajes, filtros, plantillas y Emitter)
+
+// Plataformas de origen que entiende /webhook
+export type Platform = 'tiktok' | 'twitch' | 'youtube' | 'kick' | 'generic';
+
+export const PLATFORMS: Platform[] = ['tiktok', 'twitch', 'youtube', 'kick', 'generic'];
+
+export const CHAT_EVENT_TYPES = ['chat', 'gift', 'follow', 'like', 'share', 'subscribe', 'system'] as const;
+export type ChatEventType = typeof CHAT_EVENT_TYPES[number];
+
+export interface ChatUser {
+  id?: string;       // Identificador estable de la plataforma (userId, channelId...)
+  username?: string; // Nombre de usuario único (@uniqueId, login)
+  name?: string;     // Nombre que se muestra
+  avatar?: string;
+  badges: string[];  // 'moderator', 'subscriber', 'broadcaster', 'vip'...
+}
+
+export interface ChatGift {
+  id?: string;
+  name: string;
+  count: number;
+}
+
+export interface ChatAmount {
+  value: number;
+  currency: string; // 'USD', 'bits', 'diamonds', 'kicks'...
+}
+
+interface ChatEventBase {
+  type: ChatEventType;
+  platform: Platform;
+  eventName: string; // Nombre del evento para las plantillas (chat, superchat, raid, member...)
+  user: ChatUser;
+  text?: string;
+  amount?: ChatAmount;
+}
+
+export interface ChatMessageEvent extends ChatEventBase {
+  type: 'chat';
+  text: string;
+}
+
+export interface GiftEvent extends ChatEventBase {
+  type: 'gift';
+  gift: ChatGift;
+}
+
+export interface FollowEvent extends ChatEventBase {
+  type: 'follow';
+}
+
+export interface LikeEvent extends ChatEventBase {
+  type: 'like';
+  likes: number;
+}
+
+export interface ShareEvent extends ChatEventBase {
+  type: 'share';
+}
+
+export interface SubscribeEvent extends ChatEventBase {
+  type: 'subscribe';
+  months?: number;
+}
+
+// Entradas, salidas, raids y cualquier evento sin tipo propio
+export interface SystemEvent extends ChatEventBase {
+  type: 'system';
+}
+
+export type ChatEvent = ChatMessageEvent | GiftEvent | FollowEvent | LikeEvent | ShareEvent | SubscribeEvent | SystemEvent;
+
+// Lo que entregan los adaptadores; el tipo se deduce de eventName
+export interface ChatEventInput {
+  platform: Platform;
+  eventName: string;
+  user: ChatUser;
+  text?: string;
+  amount?: ChatAmount;
+  gift?: ChatGift;
+  likes?: number;
+  months?: number;
+}
+
+export type ChatEventValidation = { ok: true; event: ChatEvent } | { ok: false; errors: string[] };
+
+// Campos de usuario y mensaje en el formato plano de processIaResponse
+export type UserIdentifier = {
+  id: string;
+};
+
+export type UserDisplay = {
+  nickname: string;
+  displayName: string;
+  displayname: string;
+  username: string;
+  uniqueId: string;
+  uniqueid: string;
+};
+
+export type MessageContent = {
+  comment: string;
+  content: string;
+  message: string;
+  msg: string;
+  text: string;
+};
+
+export interface Messages extends Partial<UserIdentifier>, Partial<UserDisplay>, Partial<MessageContent> {}
+
+// eventName => tipo (los que no aparecen son 'system')
+const EVENT_TYPES: Record<string, ChatEventType> = {
+  chat: 'chat',
+  comment: 'chat',
+  superchat: 'chat',
+  gift: 'gift',
+  follow: 'follow',
+  like: 'like',
+  share: 'share',
+  subscribe: 'subscribe',
+};
+
+/**
+ * Crea un evento a partir de lo que extrae un adaptador.
+ * Si faltan los datos propios del tipo (texto de un chat, regalo...) queda como 'system'.
+ */
+export function createChatEvent(input: ChatEventInput): ChatEvent {
+  const eventName = input.eventName.trim().toLowerCase() || 'chat';
+  const base = {
+    platform: input.platform,
+    eventName,
+    user: { ...input.user, badges: [...input.user.badges] },
+    ...(input.text !== undefined && { text: input.text }),
+    ...(input.amount && { amount: input.amount }),
+  };
+
+  switch (EVENT_TYPES[eventName]) {
+    case 'chat':
+      if (input.text) return { ...base, type: 'chat', text: input.text };
+      break;
+    case 'gift':
+      if (input.gift) return { ...base, type: 'gift', gift: input.gift };
+      break;
+    case 'like':
+      return { ...base, type: 'like', likes: input.likes ?? 1 };
+    case 'follow':
+      return { ...base, type: 'follow' };
+    case 'share':
+      return { ...base, type: 'share' };
+    case 'subscribe':
+      return { ...base, type: 'subscribe', ...(input.months !== undefined && { months: input.months }) };
+  }
+  return { ...base, type: 'system' };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: Record<string, any>, key: string, prefix: string, errors: string[]): void {
+  if (value[key] !== undefined && typeof value[key] !== 'string') errors.push(`${prefix}${key} must be a string`);
+}
+
+/**
+ * Valida un evento recibido desde fuera (POST /messages, clientes)
+ * @returns El evento o la lista de errores
+ */
+export function validateChatEvent(value: unknown): ChatEventValidation {
+  if (!isObject(value)) return { ok: false, errors: ['event must be an object'] };
+  const errors: string[] = [];
+
+  if (!CHAT_EVENT_TYPES.includes(value.type)) errors.push(`type must be one of ${CHAT_EVENT_TYPES.join(', ')}`);
+  if (value.platform !== undefined && !PLATFORMS.includes(value.platform)) errors.push(`platform must be one of ${PLATFORMS.join(', ')}`);
+  if (value.eventName !== undefined && (typeof value.eventName !== 'string' || !value.eventName.trim())) {
+    errors.push('eventName must be a non-empty string');
+  }
+  optionalString(value, 'text', '', errors);
+
+  if (!isObject(value.user)) {
+    errors.push('user must be an object');
+  } else {
+    for (const key of ['id', 'username', 'name', 'avatar']) optionalString(value.user, key, 'user.', errors);
+    if (value.user.badges !== undefined && (!Array.isArray(value.user.badges) || value.user.badges.some((b: unknown) => typeof b !== 'string'))) {
+      errors.push('user.badges must be an array of strings');
+    }
+  }
+  if (value.amount !== undefined && (!isObject(value.amount) || typeof value.amount.value !== 'number' || typeof value.amount.currency !== 'string')) {
+    errors.push('amount must be { value: number, currency: string }');
+  }
+
+  switch (value.type as ChatEventType) {
+    case 'chat':
+      if (typeof value.text !== 'string' || !value.text.trim()) errors.push('text is required for chat events');
+      break;
+    case 'gift':
+      if (!isObject(value.gift) || typeof value.gift.name !== 'string' || !value.gift.name.trim()) errors.push('gift.name is required for gift events');
+      else if (value.gift.count !== undefined && (typeof value.gift.count !== 'number' || value.gift.count < 1)) errors.push('gift.count must be a positive number');
+      break;
+    case 'like':
+      if (value.likes !== undefined && (typeof value.likes !== 'number' || value.likes < 0)) errors.push('likes must be a non-negative number');
+      break;
+    case 'subscribe':
+      if (value.months !== undefined && typeof value.months !== 'number') errors.push('months must be a number');
+      break;
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const type = value.type as ChatEventType;
+  const user = value.user as Record<string, any>;
+  const event = {
+    type,
+    platform: value.platform ?? 'generic',
+    eventName: (value.eventName ?? type).trim().toLowerCase(),
+    user: {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      avatar: user.avatar,
+      badges: user.badges ?? [],
+    },
+    ...(value.text !== undefined && { text: value.text }),
+    ...(value.amount && { amount: { value: value.amount.value, currency: value.amount.currency } }),
+    ...(type === 'gift' && { gift: { id: value.gift.id, name: value.gift.name, count: value.gift.count ?? 1 } }),
+    ...(type === 'like' && { likes: value.likes ?? 1 }),
+    ...(type === 'subscribe' && value.months !== undefined && { months: value.months }),
+  } as ChatEvent;
+  return { ok: true, event };
+}
+
+/**
+ * Nombre con el que se anuncia al usuario
+ */
+export function displayNameOf(user: ChatUser): string | undefined {
+  return user.name ?? user.username;
+}
+
+/**
+ * Campos planos del evento (los que usan la moderación, las voces
+ * por usuario y los clientes de /messages)
+ */
+export function toMessageFields(event: ChatEvent): Messages {
+  const { user, text } = event;
+  const name = displayNameOf(user);
+  return {
+    id: user.id,
+    uniqueId: user.username,
+    username: user.username,
+    nickname: name,
+    displayName: name,
+    comment: text,
+    message: text,
+    text,
+  };
+}
@@ -0,0 +1,194 @@
+import { DataStorage } from 'json-obj-manager';
+import { JSONFile } from 'json-obj-manager/node';
+import path from 'path';
+import { SpamCleaner } from './spam-cleaner';
+
+const tempPath = path.join(process.cwd(), 'temp');
+
+export type SimilarityAlgorithm = 'levenshtein' | 'trigram';
+
+export interface DeduplicatorConfig {
+  enabled: boolean;
+  windowSize: number;     // Últimos N mensajes que se comparan
+  windowSeconds: number;  // Antigüedad máxima de un mensaje en la ventana
+  threshold: number;      // Similitud (0-1) a partir de la cual se considera repetido
+  algorithm: SimilarityAlgorithm;
+}
+
+export interface DuplicateResult {
+  duplicate: boolean;
+  normalized: string;
+  similarity: number;   // Mayor similitud encontrada en la ventana
+  match?: string;       // Texto original del mensaje parecido
+}
+
+interface WindowEntry {
+  text: string;
+  normalized: string;
+  at: number;
+}
+
+export const DEFAULT_DEDUPLICATOR_CONFIG: DeduplicatorConfig = {
+  enabled: true,
+  windowSize: 10,
+  windowSeconds: 60,
+  threshold: 0.85,
+  algorithm: 'levenshtein',
+};
+
+const ALGORITHMS: SimilarityAlgorithm[] = ['levenshtein', 'trigram'];
+
+const dataStorage = new DataStorage<DeduplicatorConfig>(new JSONFile(path.join(tempPath, 'data/deduplicator.json')));
+
+/**
+ * Distancia de edición entre dos textos (dos filas, O(n·m))
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+/**
+ * Similitud entre 0 (distintos) y 1 (iguales) de dos textos ya normalizados
+ */
+export function similarity(a: string, b: string, algorithm: SimilarityAlgorithm = 'levenshtein'): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  if (algorithm === 'trigram') {
+    const ta = trigrams(a);
+    const tb = trigrams(b);
+    let intersection = 0;
+    for (const gram of ta) {
+      if (tb.has(gram)) intersection++;
+    }
+    return intersection / (ta.size + tb.size - intersection);
+  }
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+// Números de un texto normalizado ("envio 100 rosas" => "100")
+function numbersOf(text: string): string {
+  return (text.match(/\p{N}+/gu) ?? []).join(' ');
+}
+
+/**
+ * Detecta mensajes casi repetidos dentro de una ventana deslizante
+ * (los últimos N mensajes o los últimos T segundos, lo que sea menor)
+ */
+export class Deduplicator {
+  private config: DeduplicatorConfig = { ...DEFAULT_DEDUPLICATOR_CONFIG };
+  private window: WindowEntry[] = [];
+  private cleaner = new SpamCleaner();
+  readonly ready: Promise<void>;
+
+  // storage: por defecto temp/data/deduplicator.json
+  constructor(private storage = dataStorage) {
+    this.ready = this.loadBackup();
+  }
+
+  getConfig(): DeduplicatorConfig {
+    return this.config;
+  }
+
+  /**
+   * Valida y aplica una configuración parcial.
+   * @returns Lista de errores (vacía si se aplicó)
+   */
+  updateConfig(update: Partial<DeduplicatorConfig>): string[] {
+    const next: DeduplicatorConfig = { ...this.config, ...update };
+    const errors: string[] = [];
+
+    if (typeof next.enabled !== 'boolean') errors.push('enabled must be a boolean');
+    if (!Number.isInteger(next.windowSize) || next.windowSize < 1) errors.push('windowSize must be a positive integer');
+    if (typeof next.windowSeconds !== 'number' || !(next.windowSeconds > 0)) errors.push('windowSeconds must be a positive number');
+    if (typeof next.threshold !== 'number' || !(next.threshold > 0 && next.threshold <= 1)) errors.push('threshold must be between 0 and 1');
+    if (!ALGORITHMS.includes(next.algorithm)) errors.push(`algorithm must be one of ${ALGORITHMS.join(', ')}`);
+    if (errors.length > 0) return errors;
+
+    this.config = next;
+    this.trim(Date.now());
+    this.saveConfig();
+    return [];
+  }
+
+  /**
+   * Compara un texto con la ventana sin añadirlo
+   */
+  check(text: string, now: number = Date.now()): DuplicateResult {
+    const normalized = this.cleaner.normalize(text);
+    const result: DuplicateResult = { duplicate: false, normalized, similarity: 0 };
+    if (!this.config.enabled || !normalized) return result;
+
+    this.trim(now);
+    const numbers = numbersOf(normalized);
+    for (const entry of this.window) {
+      // Mismo texto con otra cantidad (regalos, likes...): no es una repetición
+      if (numbersOf(entry.normalized) !== numbers) continue;
+      const score = similarity(normalized, entry.normalized, this.config.algorithm);
+      if (score > result.similarity) {
+        result.similarity = score;
+        result.match = entry.text;
+      }
+    }
+    result.duplicate = result.similarity >= this.config.threshold;
+    return result;
+  }
+
+  /**
+   * Añade un mensaje aceptado a la ventana
+   */
+  add(text: string, now: number = Date.now()): void {
+    const normalized = this.cleaner.normalize(text);
+    if (!normalized) return;
+    this.window.push({ text, normalized, at: now });
+    this.trim(now);
+  }
+
+  clear(): void {
+    this.window = [];
+  }
+
+  private trim(now: number): void {
+    const minTime = now - this.config.windowSeconds * 1000;
+    this.window = this.window.filter(entry => entry.at >= minTime).slice(-this.config.windowSize);
+  }
+
+  private saveConfig(): void {
+    this.storage.save('data', this.config)
+      .catch((error: unknown) => console.error('Error saving deduplicator config:', error));
+  }
+
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await this.storage.load('data');
+      if (data) this.config = { ...DEFAULT_DEDUPLICATOR_CONFIG, ...data };
+    } catch (error) {
+      console.error('Error loading deduplicator backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const deduplicator = new Deduplicator();
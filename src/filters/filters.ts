@@ -1,13 +1,38 @@
 import { DataStorage } from 'json-obj-manager';
 import { JSONFile } from 'json-obj-manager/node';
 import path from 'path';
+import { emitter } from '../Emitter';
+import { matchesRule, type MatchMode } from './matchers';
+import { displayNameOf, type ChatEvent } from '../events/chatEvent';
 
 const tempPath = path.join(process.cwd(), 'temp');
 
+// A qué se aplica un filtro: el texto del mensaje, el nombre del usuario o ambos
+export type FilterScope = 'text' | 'user' | 'both';
+
+export const FILTER_SCOPES: FilterScope[] = ['text', 'user', 'both'];
+
+// Entrada de la lista negra: texto simple (coincidencia parcial) u objeto con
+// expiración y modo de coincidencia propio
+export type BlackListItem = string | {
+  item: string;
+  expiresAt: Date | null;
+  mode?: MatchMode;
+  normalize?: boolean;
+};
+
+// Modo de coincidencia de una entrada nueva de la lista negra
+export interface BlackListRule {
+  mode?: MatchMode;
+  normalize?: boolean;
+}
+
 // Define los tipos de filtro
 export interface Filter {
   id: string;
-  blackList: (string | { item: string; expiresAt: Date | null })[];
+  name: string;
+  scope: FilterScope;
+  blackList: BlackListItem[];
   whiteList: string[];
   createdAt: Date;
   updatedAt: Date;
@@ -19,16 +44,33 @@ export interface CheckOptions {
   caseSensitive?: boolean;
   exactMatch?: boolean;
   partialMatch?: boolean;
+  target?: 'text' | 'user'; // Qué se está comprobando (por defecto el texto)
+}
+
+// Elemento que coincidió y filtro al que pertenece
+export interface FilterMatch {
+  filterId: string;
+  filterName: string;
+  list: 'blacklist' | 'whitelist';
+  item: string;
+  mode?: MatchMode;
+  expiresAt?: Date | null;
+}
+
+export interface FilterOptions {
+  name?: string;
+  scope?: FilterScope;
 }
 
 // Resultado de la verificación
 export interface CheckResult {
   isAllowed: boolean;
   isBlocked: boolean;
-  matchedBlackList: (string | { item: string; expiresAt: Date | null })[];
+  matchedBlackList: BlackListItem[];
   matchedWhiteList: string[];
   reason: 'blacklist' | 'whitelist' | 'none';
   expirationReason?: string; // Nuevo campo para ban temporal
+  matches: FilterMatch[];
 }
 
 const dataStorage = new DataStorage<Filter[]>(new JSONFile(path.join(tempPath, 'data/filters.json')));
@@ -39,14 +81,17 @@ const dataStorage = new DataStorage<Filter[]>(new JSONFile(path.join(tempPath, '
  */
 export class FilterManager {
   private filters: Filter[] = [];
+  // Se resuelve cuando terminó de cargar el backup
+  readonly ready: Promise<void>;
 
-  constructor() {
-    this.loadBackup();
+  // storage: por defecto temp/data/filters.json
+  constructor(private storage = dataStorage) {
+    this.ready = this.loadBackup();
     // Opcional: un temporizador para limpiar elementos expirados periódicamente
-    setInterval(() => this.cleanExpiredBlacklistItems(), 60 * 60 * 1000); // Cada hora
+    setInterval(() => this.cleanExpiredBlacklistItems(), 60 * 60 * 1000).unref(); // Cada hora
   }
 
-  private normalizeItem(item: string | { item: string; expiresAt: Date | null }): string {
+  private normalizeItem(item: BlackListItem): string {
     return typeof item === 'string' ? item.trim() : item.item.trim();
   }
 
@@ -79,9 +124,12 @@ export class FilterManager {
   /**
    * Crea un nuevo filtro
    */
-  createFilter(blackList: string[] = [], whiteList: string[] = []): Filter {
+  createFilter(blackList: string[] = [], whiteList: string[] = [], options: FilterOptions = {}): Filter {
+    const id = crypto.randomUUID();
     const newFilter: Filter = {
-      id: "default",
+      id,
+      name: options.name?.trim() || `filter-${id.slice(0, 8)}`,
+      scope: options.scope ?? 'text',
       blackList: blackList.map(item => item.trim()),
       whiteList: whiteList.map(item => item.trim()),
       createdAt: new Date(),
@@ -94,6 +142,31 @@ export class FilterManager {
     return newFilter;
   }
 
+  /**
+   * Devuelve el filtro con ese nombre o lo crea si no existe.
+   * Espera a que se cargue el backup, así que es seguro llamarlo en cada arranque.
+   */
+  async ensureFilter(name: string, defaults: { blackList?: string[]; whiteList?: string[]; scope?: FilterScope } = {}): Promise<Filter> {
+    await this.ready;
+    const existing = this.getFilterByName(name);
+    if (existing) return existing;
+    return this.createFilter(defaults.blackList, defaults.whiteList, { name, scope: defaults.scope });
+  }
+
+  /**
+   * Cambia el nombre o el alcance de un filtro
+   */
+  setFilterOptions(id: string, options: FilterOptions): boolean {
+    const filter = this.filters.find(f => f.id === id);
+    if (!filter) return false;
+
+    if (options.name !== undefined && options.name.trim()) filter.name = options.name.trim();
+    if (options.scope !== undefined) filter.scope = options.scope;
+    filter.updatedAt = new Date();
+    this.saveFilters();
+    return true;
+  }
+
   /**
    * Actualiza un filtro existente
    */
@@ -115,18 +188,24 @@ export class FilterManager {
 
   /**
    * Añade elementos a la lista negra de un filtro.
-   * Puedes especificar un tiempo de expiración en segundos.
+   * Puedes especificar un tiempo de expiración en segundos y el modo de coincidencia.
+   * Si un elemento ya existía se reemplaza (por ejemplo para cambiar su modo).
    */
-  addToBlackList(id: string, items: string[], expiresInSeconds: number | null = null): boolean {
+  addToBlackList(id: string, items: string[], expiresInSeconds: number | null = null, rule: BlackListRule = {}): boolean {
     const filter = this.filters.find(f => f.id === id);
     if (!filter) return false;
 
-    const newBlackListItems = items.map(item => {
-      const expiresAt = expiresInSeconds ? new Date(Date.now() + expiresInSeconds * 1000) : null;
-      return expiresAt ? { item: item.trim(), expiresAt } : item.trim();
-    });
-
-    filter.blackList = [...filter.blackList, ...newBlackListItems].filter((value, index, self) => 
+    // Todas con su modo, también las parciales
+    const expiresAt = expiresInSeconds ? new Date(Date.now() + expiresInSeconds * 1000) : null;
+    const newBlackListItems: BlackListItem[] = items.map(item => (
+      { item: item.trim(), expiresAt, mode: rule.mode ?? 'partial', normalize: !!rule.normalize }
+    ));
+    const newNames = newBlackListItems.map(item => this.normalizeItem(item));
+
+    filter.blackList = [
+      ...filter.blackList.filter(item => !newNames.includes(this.normalizeItem(item))),
+      ...newBlackListItems
+    ].filter((value, index, self) => 
       index === self.findIndex((t) => (this.normalizeItem(t) === this.normalizeItem(value)))
     );
     
@@ -216,16 +295,18 @@ export class FilterManager {
     const {
       caseSensitive = false,
       exactMatch = false,
-      partialMatch = true
+      partialMatch = true,
+      target = 'text'
     } = options;
 
     const processedText = caseSensitive ? text : text.toLowerCase();
-    const matchedBlackList: (string | { item: string; expiresAt: Date | null })[] = [];
+    const matchedBlackList: BlackListItem[] = [];
     const matchedWhiteList: string[] = [];
+    const filterMatches: FilterMatch[] = [];
     let expirationReason: string | undefined;
 
-    // Verificar contra todos los filtros activos
-    for (const filter of this.filters.filter(f => f.isActive)) {
+    // Verificar contra todos los filtros activos que aplican a lo que se comprueba
+    for (const filter of this.filters.filter(f => f.isActive && (f.scope === target || f.scope === 'both'))) {
       // Verificar lista negra
       for (const blackItem of filter.blackList) {
         if (typeof blackItem !== 'string' && this.isItemExpired(blackItem)) {
@@ -233,17 +314,29 @@ export class FilterManager {
           continue;
         }
 
-        const processedBlackItem = caseSensitive ? this.normalizeItem(blackItem) : this.normalizeItem(blackItem).toLowerCase();
-        
         let matches = false;
-        if (exactMatch) {
-          matches = processedText === processedBlackItem;
-        } else if (partialMatch) {
-          matches = processedText.includes(processedBlackItem);
+        if (typeof blackItem !== 'string' && ((blackItem.mode && blackItem.mode !== 'partial') || blackItem.normalize)) {
+          // La entrada tiene su propio modo de coincidencia (las parciales siguen las opciones)
+          matches = matchesRule(text, blackItem, caseSensitive);
+        } else {
+          const processedBlackItem = caseSensitive ? this.normalizeItem(blackItem) : this.normalizeItem(blackItem).toLowerCase();
+          if (exactMatch) {
+            matches = processedText === processedBlackItem;
+          } else if (partialMatch) {
+            matches = processedText.includes(processedBlackItem);
+          }
         }
 
         if (matches) {
           matchedBlackList.push(blackItem);
+          filterMatches.push({
+            filterId: filter.id,
+            filterName: filter.name,
+            list: 'blacklist',
+            item: this.normalizeItem(blackItem),
+            mode: typeof blackItem === 'string' ? undefined : blackItem.mode,
+            expiresAt: typeof blackItem === 'string' ? null : blackItem.expiresAt
+          });
           if (typeof blackItem !== 'string' && blackItem.expiresAt) {
             expirationReason = `Blocked until ${blackItem.expiresAt.toLocaleString()}`;
           }
@@ -263,6 +356,7 @@ export class FilterManager {
 
         if (matches) {
           matchedWhiteList.push(whiteItem);
+          filterMatches.push({ filterId: filter.id, filterName: filter.name, list: 'whitelist', item: whiteItem });
         }
       }
     }
@@ -275,7 +369,8 @@ export class FilterManager {
         isBlocked: false,
         matchedBlackList,
         matchedWhiteList,
-        reason: 'whitelist'
+        reason: 'whitelist',
+        matches: filterMatches
       };
     }
 
@@ -286,7 +381,8 @@ export class FilterManager {
         matchedBlackList,
         matchedWhiteList,
         reason: 'blacklist',
-        expirationReason
+        expirationReason,
+        matches: filterMatches
       };
     }
 
@@ -295,10 +391,28 @@ export class FilterManager {
       isBlocked: false,
       matchedBlackList,
       matchedWhiteList,
-      reason: 'none'
+      reason: 'none',
+      matches: filterMatches
     };
   }
 
+  /**
+   * Verifica un evento del chat: el texto con los filtros de texto y el nombre
+   * y @ del usuario con los de usuario. Devuelve el primer resultado que bloquea.
+   * @param text Texto a comprobar si no es el del evento (ej. la plantilla ya aplicada)
+   */
+  checkEvent(event: ChatEvent, text: string = event.text ?? ''): CheckResult {
+    const textResult = this.checkString(text, { target: 'text' });
+    if (textResult.isBlocked) return textResult;
+
+    const names = Array.from(new Set([displayNameOf(event.user), event.user.username].filter((n): n is string => !!n)));
+    for (const name of names) {
+      const userResult = this.checkString(name, { target: 'user' });
+      if (userResult.isBlocked) return userResult;
+    }
+    return textResult;
+  }
+
   /**
    * Método de conveniencia para verificar si un string está permitido
    */
@@ -320,6 +434,14 @@ export class FilterManager {
     return this.filters.find(f => f.id === id);
   }
 
+  /**
+   * Obtiene un filtro por nombre
+   */
+  getFilterByName(name: string): Filter | undefined {
+    const lowerName = name.trim().toLowerCase();
+    return this.filters.find(f => f.name.toLowerCase() === lowerName);
+  }
+
   /**
    * Obtiene todos los filtros
    */
@@ -359,7 +481,8 @@ export class FilterManager {
    * Guarda los filtros en el archivo
    */
   private saveFilters(): void {
-    dataStorage.save('data', this.filters);
+    this.storage.save('data', this.filters);
+    emitter.emit('filter-changed', this.getStats());
   }
 
   /**
@@ -367,22 +490,30 @@ export class FilterManager {
    */
   async loadBackup(): Promise<void> {
     try {
-      const data = await dataStorage.load('data');
+      const data = await this.storage.load('data');
       if (data) {
-        this.filters = data.map(filter => ({
+        const loaded: Filter[] = data.map((filter: Filter) => ({
           ...filter,
+          // Los filtros antiguos no tenían nombre ni alcance
+          name: filter.name || filter.id,
+          scope: FILTER_SCOPES.includes(filter.scope) ? filter.scope : 'text',
           createdAt: new Date(filter.createdAt),
           updatedAt: new Date(filter.updatedAt),
-          blackList: filter.blackList.map(item => {
+          blackList: filter.blackList.map((item: BlackListItem) => {
             if (typeof item === 'object' && item !== null && 'item' in item && 'expiresAt' in item) {
               return {
-                item: item.item,
+                ...item,
                 expiresAt: item.expiresAt ? new Date(item.expiresAt) : null
               };
             }
             return item;
           })
         }));
+        const merged = this.mergeDuplicates(loaded);
+        // Conservar los filtros creados mientras se cargaba el archivo
+        const pending = this.filters.filter(f => !merged.some(m => m.id === f.id));
+        this.filters = [...merged, ...pending];
+        if (merged.length < loaded.length || pending.length > 0) this.saveFilters();
         this.cleanExpiredBlacklistItems(); // Limpiar al cargar
       }
     } catch (error) {
@@ -392,11 +523,35 @@ export class FilterManager {
   }
 
   /**
-   * Busca filtros por contenido
+   * Une los filtros repetidos (mismo id, como los "default" que se creaban
+   * en cada arranque) en uno solo con la unión de sus listas
+   */
+  private mergeDuplicates(filters: Filter[]): Filter[] {
+    const byId = new Map<string, Filter>();
+    for (const filter of filters) {
+      const existing = byId.get(filter.id);
+      if (!existing) {
+        byId.set(filter.id, { ...filter, blackList: [...filter.blackList], whiteList: [...filter.whiteList] });
+        continue;
+      }
+      for (const item of filter.blackList) {
+        if (!existing.blackList.some(t => this.normalizeItem(t) === this.normalizeItem(item))) existing.blackList.push(item);
+      }
+      for (const item of filter.whiteList) {
+        if (!existing.whiteList.includes(item)) existing.whiteList.push(item);
+      }
+      if (filter.updatedAt > existing.updatedAt) existing.updatedAt = filter.updatedAt;
+    }
+    return Array.from(byId.values());
+  }
+
+  /**
+   * Busca filtros por nombre o contenido
    */
   searchFilters(query: string): Filter[] {
     const lowerQuery = query.toLowerCase();
     return this.filters.filter(filter => 
+      filter.name.toLowerCase().includes(lowerQuery) ||
       filter.blackList.some(item => this.normalizeItem(item).toLowerCase().includes(lowerQuery)) ||
       filter.whiteList.some(item => item.toLowerCase().includes(lowerQuery))
     );
@@ -415,6 +570,13 @@ export function checkText(text: string, options?: CheckOptions): CheckResult {
   return filterManager.checkString(text, options);
 }
 
+/**
+ * Verifica un evento del chat (texto y usuario).
+ */
+export function checkChatEvent(event: ChatEvent, text?: string): CheckResult {
+  return filterManager.checkEvent(event, text);
+}
+
 /**
  * Verifica si un string está permitido.
  */
@@ -434,9 +596,10 @@ export function isTextBlocked(text: string, options?: CheckOptions): boolean {
  * @param filterId El ID del filtro.
  * @param items Los elementos a añadir.
  * @param expiresInSeconds El tiempo de expiración en segundos (opcional).
+ * @param rule Modo de coincidencia de los elementos (opcional).
  */
-export function addItemsToBlacklist(filterId: string, items: string[], expiresInSeconds: number | null = null): boolean {
-  return filterManager.addToBlackList(filterId, items, expiresInSeconds);
+export function addItemsToBlacklist(filterId: string, items: string[], expiresInSeconds: number | null = null, rule?: BlackListRule): boolean {
+  return filterManager.addToBlackList(filterId, items, expiresInSeconds, rule);
 }
 
 /**
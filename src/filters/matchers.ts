@@ -0,0 +1,143 @@
+import { RE2JS } from 're2js';
+
+// Modos de coincidencia para las entradas de los filtros
+// partial: contiene el texto ("ass" bloquea "class")
+// exact: el mensaje completo es igual
+// word: palabra completa ("ass" no bloquea "class")
+// wildcard: comodines * (cualquier cosa) y ? (un carácter), por palabra o frase
+// regex: expresión regular (con límite de tamaño; se ejecuta con RE2)
+
+export type MatchMode = 'partial' | 'exact' | 'word' | 'wildcard' | 'regex';
+
+export const MATCH_MODES: MatchMode[] = ['partial', 'exact', 'word', 'wildcard', 'regex'];
+
+export interface MatchRule {
+  item: string;
+  mode?: MatchMode;
+  normalize?: boolean; // Aplicar normalizeForMatch al texto y a la regla
+}
+
+// Límites para las expresiones regulares de los usuarios
+const MAX_PATTERN_LENGTH = 200;
+const MAX_CACHED_REGEX = 500;
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's',
+};
+
+const regexCache = new Map<string, RegExp | null>();
+const userRegexCache = new Map<string, RE2JS | null>();
+
+/**
+ * Normaliza un texto para detectar evasiones:
+ * sin acentos, leetspeak traducido ("p4l4br4" => "palabra") y letras sueltas
+ * unidas ("p a l a b r a" / "p.a.l.a.b.r.a" => "palabra")
+ */
+export function normalizeForMatch(text: string): string {
+  let result = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  result = result.replace(/[01345789@$]/g, char => LEET_MAP[char] ?? char);
+  // Unir secuencias de 3 o más caracteres sueltos separados por espacios o signos
+  result = result.replace(/(?:^|(?<=\s))(?:\p{L}[\s._\-*]+){2,}\p{L}(?=\s|$)/gu, match => match.replace(/[\s._\-*]+/g, ''));
+  return result.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Comprueba si un patrón de regex es aceptable.
+ * Las regex de los usuarios se ejecutan con RE2 (tiempo lineal, sin backtracking),
+ * así que basta con limitar el tamaño y que compile: no admite lookarounds
+ * ni referencias hacia atrás.
+ * @returns El motivo del rechazo o null si es válido
+ */
+export function validateRegex(pattern: string): string | null {
+  if (!pattern) return 'Pattern is empty';
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    RE2JS.compile(pattern);
+  } catch (e) {
+    return `Invalid regex: ${(e as Error).message}`;
+  }
+  return null;
+}
+
+/**
+ * Compila una regex de usuario con RE2 (null si no es válida).
+ * Se guarda en caché por patrón y mayúsculas.
+ */
+export function compileUserRegex(pattern: string, caseSensitive: boolean): RE2JS | null {
+  const key = `${caseSensitive ? '' : 'i'}/${pattern}`;
+  if (!userRegexCache.has(key)) {
+    if (userRegexCache.size >= MAX_CACHED_REGEX) userRegexCache.clear();
+    userRegexCache.set(key, validateRegex(pattern) ? null : RE2JS.compile(pattern, caseSensitive ? 0 : RE2JS.CASE_INSENSITIVE));
+  }
+  return userRegexCache.get(key) ?? null;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compile(source: string, flags: string): RegExp | null {
+  const key = `${flags}/${source}`;
+  if (!regexCache.has(key)) {
+    if (regexCache.size >= MAX_CACHED_REGEX) regexCache.clear();
+    try {
+      regexCache.set(key, new RegExp(source, flags));
+    } catch (e) {
+      regexCache.set(key, null);
+    }
+  }
+  return regexCache.get(key) ?? null;
+}
+
+/**
+ * Convierte una regla en RegExp según su modo (null para partial/exact/regex o si no es válida)
+ */
+function toRegExp(item: string, mode: MatchMode, caseSensitive: boolean): RegExp | null {
+  const flags = caseSensitive ? 'u' : 'iu';
+  switch (mode) {
+    case 'word':
+      return compile(`(?<![\\p{L}\\p{N}_])${escapeRegex(item)}(?![\\p{L}\\p{N}_])`, flags);
+    case 'wildcard': {
+      const body = item.split('').map(char =>
+        char === '*' ? '[^\\s]*' : char === '?' ? '[^\\s]' : escapeRegex(char)
+      ).join('');
+      return compile(`(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`, flags);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Comprueba si un texto coincide con una regla
+ */
+export function matchesRule(text: string, rule: MatchRule, caseSensitive = false): boolean {
+  const mode = rule.mode ?? 'partial';
+  let subject = text;
+  let item = rule.item.trim();
+  if (rule.normalize) {
+    subject = normalizeForMatch(subject);
+    // Las expresiones regulares se escriben ya pensando en el texto normalizado
+    if (mode !== 'regex') item = normalizeForMatch(item);
+  } else if (!caseSensitive) {
+    subject = subject.toLowerCase();
+    if (mode !== 'regex') item = item.toLowerCase();
+  }
+  if (!item) return false;
+
+  switch (mode) {
+    case 'exact':
+      return subject.trim() === item;
+    case 'partial':
+      return subject.includes(item);
+    case 'regex': {
+      const regex = compileUserRegex(item, caseSensitive);
+      return regex ? regex.test(subject) : false;
+    }
+    default: {
+      const regex = toRegExp(item, mode, caseSensitive);
+      return regex ? regex.test(subject) : false;
+    }
+  }
+}
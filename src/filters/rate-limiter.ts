@@ -0,0 +1,216 @@
+import { DataStorage } from 'json-obj-manager';
+import { JSONFile } from 'json-obj-manager/node';
+import path from 'path';
+
+const tempPath = path.join(process.cwd(), 'temp');
+
+export interface BucketConfig {
+  burst: number;           // Máximo de mensajes seguidos
+  refillPerSecond: number; // Mensajes que se recuperan por segundo
+}
+
+export interface UserLimitConfig extends BucketConfig {
+  cooldownSeconds: number; // Espera mínima entre dos mensajes del mismo usuario
+  maxQueued: number;       // Máximo de mensajes pendientes de leer por usuario (0 = sin límite)
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  perUser: UserLimitConfig;
+  global: BucketConfig;
+}
+
+export type RateLimitReason = 'user_cooldown' | 'user_queue_full' | 'user_rate_limit' | 'global_rate_limit';
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: RateLimitReason; message: string; retryAfterSeconds: number };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  lastMessageAt: number;
+}
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  enabled: true,
+  perUser: { burst: 3, refillPerSecond: 0.2, cooldownSeconds: 2, maxQueued: 3 },
+  global: { burst: 20, refillPerSecond: 2 },
+};
+
+// A partir de cuántos usuarios se limpian los buckets inactivos
+const MAX_TRACKED_USERS = 1000;
+// Tope de retryAfter (sin recarga de tokens la espera sería infinita)
+const MAX_RETRY_AFTER_SECONDS = 3600;
+
+const dataStorage = new DataStorage<RateLimitConfig>(new JSONFile(path.join(tempPath, 'data/rate-limit.json')));
+
+/**
+ * Limitador token bucket por usuario y global para /webhook
+ */
+export class RateLimiter {
+  private config: RateLimitConfig = structuredClone(DEFAULT_RATE_LIMIT_CONFIG);
+  private userBuckets = new Map<string, Bucket>();
+  private globalBucket: Bucket;
+  readonly ready: Promise<void>;
+
+  // storage: por defecto temp/data/rate-limit.json
+  constructor(private storage = dataStorage) {
+    this.globalBucket = this.createBucket(this.config.global, Date.now());
+    this.ready = this.loadBackup();
+  }
+
+  getConfig(): RateLimitConfig {
+    return this.config;
+  }
+
+  /**
+   * Valida y aplica una configuración parcial.
+   * @returns Lista de errores (vacía si se aplicó)
+   */
+  updateConfig(update: Partial<{ enabled: boolean; perUser: Partial<UserLimitConfig>; global: Partial<BucketConfig> }>): string[] {
+    const shapeErrors = (['perUser', 'global'] as const)
+      .filter(key => update[key] !== undefined && (typeof update[key] !== 'object' || update[key] === null || Array.isArray(update[key])))
+      .map(key => `${key} must be an object`);
+    if (shapeErrors.length > 0) return shapeErrors;
+
+    const next: RateLimitConfig = {
+      enabled: update.enabled ?? this.config.enabled,
+      perUser: { ...this.config.perUser, ...update.perUser },
+      global: { ...this.config.global, ...update.global },
+    };
+
+    const errors: string[] = [];
+    if (typeof next.enabled !== 'boolean') errors.push('enabled must be a boolean');
+    const numbers: [string, unknown][] = [
+      ['perUser.burst', next.perUser.burst],
+      ['perUser.refillPerSecond', next.perUser.refillPerSecond],
+      ['perUser.cooldownSeconds', next.perUser.cooldownSeconds],
+      ['perUser.maxQueued', next.perUser.maxQueued],
+      ['global.burst', next.global.burst],
+      ['global.refillPerSecond', next.global.refillPerSecond],
+    ];
+    for (const [field, value] of numbers) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push(`${field} must be a non-negative number`);
+      }
+    }
+    if (next.perUser.burst < 1 || next.global.burst < 1) errors.push('burst must be at least 1');
+    if (errors.length > 0) return errors;
+
+    this.config = next;
+    this.reset();
+    this.saveConfig();
+    return [];
+  }
+
+  /**
+   * Comprueba si un mensaje puede pasar y, si pasa, consume los tokens.
+   * @param userKey Clave del usuario (sin usuario solo aplica el límite global)
+   * @param queued Mensajes del usuario que siguen pendientes de leer
+   */
+  check(userKey: string | undefined, queued = 0, now: number = Date.now()): RateLimitResult {
+    if (!this.config.enabled) return { allowed: true };
+
+    const { perUser, global } = this.config;
+    let userBucket: Bucket | undefined;
+
+    if (userKey) {
+      userBucket = this.userBuckets.get(userKey);
+      if (userBucket) {
+        this.refill(userBucket, perUser, now);
+        const sinceLast = (now - userBucket.lastMessageAt) / 1000;
+        if (sinceLast < perUser.cooldownSeconds) {
+          const retryAfterSeconds = Math.ceil(perUser.cooldownSeconds - sinceLast);
+          return this.reject('user_cooldown', `User is on cooldown for ${retryAfterSeconds}s`, retryAfterSeconds);
+        }
+      }
+      if (perUser.maxQueued > 0 && queued >= perUser.maxQueued) {
+        return this.reject('user_queue_full', `User already has ${queued} messages queued`, perUser.cooldownSeconds);
+      }
+      if (userBucket && userBucket.tokens < 1) {
+        return this.reject('user_rate_limit', 'User is sending messages too fast', this.secondsUntilToken(userBucket, perUser));
+      }
+    }
+
+    this.refill(this.globalBucket, global, now);
+    if (this.globalBucket.tokens < 1) {
+      return this.reject('global_rate_limit', 'Too many messages', this.secondsUntilToken(this.globalBucket, global));
+    }
+
+    // Todo en orden: consumir los tokens
+    this.globalBucket.tokens -= 1;
+    this.globalBucket.lastMessageAt = now;
+    if (userKey) {
+      if (!userBucket) {
+        userBucket = this.createBucket(perUser, now);
+        this.userBuckets.set(userKey, userBucket);
+        this.pruneIdleBuckets(now);
+      }
+      userBucket.tokens -= 1;
+      userBucket.lastMessageAt = now;
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Olvida el estado de todos los buckets
+   */
+  reset(): void {
+    this.userBuckets.clear();
+    this.globalBucket = this.createBucket(this.config.global, Date.now());
+  }
+
+  private reject(reason: RateLimitReason, message: string, retryAfterSeconds: number): RateLimitResult {
+    const seconds = Math.min(MAX_RETRY_AFTER_SECONDS, Math.max(1, Math.ceil(retryAfterSeconds)));
+    return { allowed: false, reason, message, retryAfterSeconds: seconds };
+  }
+
+  private createBucket(config: BucketConfig, now: number): Bucket {
+    return { tokens: config.burst, updatedAt: now, lastMessageAt: 0 };
+  }
+
+  private refill(bucket: Bucket, config: BucketConfig, now: number): void {
+    const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(config.burst, bucket.tokens + elapsed * config.refillPerSecond);
+    bucket.updatedAt = now;
+  }
+
+  private secondsUntilToken(bucket: Bucket, config: BucketConfig): number {
+    if (config.refillPerSecond <= 0) return Infinity;
+    return (1 - bucket.tokens) / config.refillPerSecond;
+  }
+
+  // Un bucket lleno no aporta información: se puede borrar
+  private pruneIdleBuckets(now: number): void {
+    if (this.userBuckets.size <= MAX_TRACKED_USERS) return;
+    for (const [key, bucket] of this.userBuckets) {
+      this.refill(bucket, this.config.perUser, now);
+      if (bucket.tokens >= this.config.perUser.burst) this.userBuckets.delete(key);
+    }
+  }
+
+  private saveConfig(): void {
+    this.storage.save('data', this.config)
+      .catch((error: unknown) => console.error('Error saving rate limit config:', error));
+  }
+
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await this.storage.load('data');
+      if (data) {
+        this.config = {
+          enabled: data.enabled ?? DEFAULT_RATE_LIMIT_CONFIG.enabled,
+          perUser: { ...DEFAULT_RATE_LIMIT_CONFIG.perUser, ...data.perUser },
+          global: { ...DEFAULT_RATE_LIMIT_CONFIG.global, ...data.global },
+        };
+        this.reset();
+      }
+    } catch (error) {
+      console.error('Error loading rate limit backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,235 @@
+import { DataStorage } from 'json-obj-manager';
+import { JSONFile } from 'json-obj-manager/node';
+import path from 'path';
+import { compileUserRegex, validateRegex } from './matchers';
+
+const tempPath = path.join(process.cwd(), 'temp');
+
+// word: palabra completa ("xd" => "equis de"); regex: expresión regular con $1, $2...
+export type RewriteRuleType = 'word' | 'regex';
+
+export const REWRITE_RULE_TYPES: RewriteRuleType[] = ['word', 'regex'];
+
+export interface RewriteRule {
+  id: string;
+  type: RewriteRuleType;
+  pattern: string;
+  replacement: string;
+  caseSensitive: boolean;
+  locale?: string;  // Solo para voces de ese idioma ('es', 'es-MX'); sin locale aplica siempre
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RewriteRuleInput = Partial<Pick<RewriteRule, 'type' | 'pattern' | 'replacement' | 'caseSensitive' | 'locale' | 'enabled'>>;
+
+export interface RewriteResult {
+  original: string;
+  text: string;
+  applied: string[]; // ids de las reglas que cambiaron el texto
+}
+
+// Abreviaturas habituales del chat en español
+const DEFAULT_RULES: RewriteRuleInput[] = [
+  { type: 'word', pattern: 'xd', replacement: 'equis de', locale: 'es' },
+  { type: 'word', pattern: 'q', replacement: 'que', locale: 'es' },
+  { type: 'word', pattern: 'xq', replacement: 'porque', locale: 'es' },
+  { type: 'word', pattern: 'tmb', replacement: 'también', locale: 'es' },
+];
+
+const dataStorage = new DataStorage<RewriteRule[]>(new JSONFile(path.join(tempPath, 'data/rewrite-rules.json')));
+
+/**
+ * Idioma de una voz de Edge ("es-MX-DaliaNeural" => "es-MX")
+ */
+export function localeFromVoice(voice?: string): string | undefined {
+  return voice?.match(/^([a-z]{2,3}-[A-Za-z]{2,4})-/)?.[1];
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "Xd" => "Equis de": se mantiene la mayúscula inicial (en mayúsculas completas
+// algunas voces deletrean la palabra)
+function matchCase(match: string, replacement: string): string {
+  const first = match.charAt(0);
+  if (first !== first.toUpperCase() || first === first.toLowerCase()) return replacement;
+  return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+}
+
+/**
+ * Diccionario de reemplazos y pronunciación que se aplica al texto
+ * limpio (después de quickClean) justo antes de sintetizarlo
+ */
+export class TextRewriter {
+  private rules: RewriteRule[] = [];
+  private compiled = new Map<string, RegExp | null>();
+  readonly ready: Promise<void>;
+
+  // storage: por defecto temp/data/rewrite-rules.json
+  constructor(private storage = dataStorage) {
+    this.ready = this.loadBackup();
+  }
+
+  list(): RewriteRule[] {
+    return [...this.rules];
+  }
+
+  get(id: string): RewriteRule | undefined {
+    return this.rules.find(r => r.id === id);
+  }
+
+  /**
+   * Valida una regla completa (la nueva o el resultado de aplicar cambios)
+   * @returns Lista de errores
+   */
+  validate(rule: RewriteRuleInput): string[] {
+    const errors: string[] = [];
+    if (!REWRITE_RULE_TYPES.includes(rule.type as RewriteRuleType)) errors.push(`type must be one of ${REWRITE_RULE_TYPES.join(', ')}`);
+    if (typeof rule.pattern !== 'string' || !rule.pattern.trim()) errors.push('pattern must be a non-empty string');
+    if (typeof rule.replacement !== 'string') errors.push('replacement must be a string');
+    if (rule.caseSensitive !== undefined && typeof rule.caseSensitive !== 'boolean') errors.push('caseSensitive must be a boolean');
+    if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') errors.push('enabled must be a boolean');
+    if (rule.locale !== undefined && rule.locale !== null && (typeof rule.locale !== 'string' || !/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(rule.locale))) {
+      errors.push('locale must look like "es" or "es-MX"');
+    }
+    if (rule.type === 'regex' && typeof rule.pattern === 'string') {
+      const error = validateRegex(rule.pattern);
+      if (error) errors.push(error);
+    }
+    return errors;
+  }
+
+  /**
+   * Crea una regla
+   * @returns La regla o la lista de errores
+   */
+  add(input: RewriteRuleInput): { ok: true; rule: RewriteRule } | { ok: false; errors: string[] } {
+    const candidate: RewriteRuleInput = { type: 'word', caseSensitive: false, enabled: true, ...input };
+    const errors = this.validate(candidate);
+    if (errors.length > 0) return { ok: false, errors };
+
+    const now = new Date();
+    const rule: RewriteRule = {
+      id: crypto.randomUUID(),
+      type: candidate.type!,
+      pattern: candidate.pattern!.trim(),
+      replacement: candidate.replacement!,
+      caseSensitive: candidate.caseSensitive!,
+      locale: candidate.locale || undefined,
+      enabled: candidate.enabled!,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.rules.push(rule);
+    this.saveRules();
+    return { ok: true, rule };
+  }
+
+  update(id: string, changes: RewriteRuleInput): { ok: true; rule: RewriteRule } | { ok: false; errors: string[] } | undefined {
+    const rule = this.get(id);
+    if (!rule) return undefined;
+
+    const next = { ...rule, ...changes };
+    const errors = this.validate(next);
+    if (errors.length > 0) return { ok: false, errors };
+
+    Object.assign(rule, next, { pattern: next.pattern.trim(), locale: next.locale || undefined, updatedAt: new Date() });
+    this.compiled.delete(id);
+    this.saveRules();
+    return { ok: true, rule };
+  }
+
+  remove(id: string): boolean {
+    const index = this.rules.findIndex(r => r.id === id);
+    if (index === -1) return false;
+    this.rules.splice(index, 1);
+    this.compiled.delete(id);
+    this.saveRules();
+    return true;
+  }
+
+  /**
+   * Aplica las reglas activas en orden
+   * @param locale Idioma de la voz que va a leer el texto (ver localeFromVoice)
+   */
+  apply(text: string, locale?: string): RewriteResult {
+    const result: RewriteResult = { original: text, text, applied: [] };
+    const lowerLocale = locale?.toLowerCase();
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+      if (rule.locale && !(lowerLocale && (lowerLocale === rule.locale.toLowerCase() || lowerLocale.startsWith(`${rule.locale.toLowerCase()}-`)))) continue;
+
+      const replaced = rule.type === 'regex' ? this.replaceRegex(rule, result.text) : this.replaceWord(rule, result.text);
+      if (replaced === undefined) continue;
+      if (replaced !== result.text) {
+        result.text = replaced;
+        result.applied.push(rule.id);
+      }
+    }
+    return result;
+  }
+
+  private replaceWord(rule: RewriteRule, text: string): string | undefined {
+    const regex = this.compile(rule);
+    if (!regex) return undefined;
+    // Con una función el reemplazo es literal: "$&" o "$1" no se interpretan
+    return text.replace(regex, match => rule.caseSensitive ? rule.replacement : matchCase(match, rule.replacement));
+  }
+
+  /**
+   * Las regex de usuario se ejecutan con RE2 (tiempo lineal), así que
+   * se aplican a todo el texto
+   */
+  private replaceRegex(rule: RewriteRule, text: string): string | undefined {
+    const regex = compileUserRegex(rule.pattern, rule.caseSensitive);
+    if (!regex) return undefined;
+    return regex.matcher(text).replaceAll(rule.replacement);
+  }
+
+  private compile(rule: RewriteRule): RegExp | null {
+    if (!this.compiled.has(rule.id)) {
+      const flags = rule.caseSensitive ? 'gu' : 'giu';
+      const source = `(?<![\\p{L}\\p{N}_])${escapeRegex(rule.pattern)}(?![\\p{L}\\p{N}_])`;
+      try {
+        this.compiled.set(rule.id, new RegExp(source, flags));
+      } catch (e) {
+        this.compiled.set(rule.id, null);
+      }
+    }
+    return this.compiled.get(rule.id) ?? null;
+  }
+
+  private saveRules(): void {
+    this.storage.save('data', this.rules)
+      .catch((error: unknown) => console.error('Error saving rewrite rules:', error));
+  }
+
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await this.storage.load('data');
+      if (Array.isArray(data)) {
+        const saved: RewriteRule[] = data.map((rule: RewriteRule) => ({
+          ...rule,
+          createdAt: new Date(rule.createdAt),
+          updatedAt: new Date(rule.updatedAt),
+        }));
+        // Las creadas mientras se cargaba el backup van detrás
+        this.rules = [...saved, ...this.rules];
+        this.compiled.clear();
+      } else if (data === undefined || data === null) {
+        // Sin backup (primera ejecución): reglas por defecto. Con backup no se
+        // vuelven a añadir, así que una regla por defecto borrada no reaparece
+        DEFAULT_RULES.forEach(rule => this.add(rule));
+      }
+    } catch (error) {
+      console.error('Error loading rewrite rules backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const textRewriter = new TextRewriter();
@@ -1,4 +1,5 @@
 // spam-cleaner.ts - Versión Mejorada
+import { removeEmotes } from './clean-emotes';
 
 interface CleanerOptions {
   minRepetitions?: number;  // Mínimo de repeticiones para considerar spam
@@ -257,6 +258,21 @@ class SpamCleaner {
     };
   }
 
+  /**
+   * Normaliza un mensaje para compararlo con otros: sin emotes, URLs,
+   * acentos, puntuación ni letras repetidas, en minúsculas y con espacios simples.
+   * "HOLAAA!! :)" => "hola"
+   */
+  normalize(message: string): string {
+    let text = this.cleanUrls(removeEmotes(message));
+    text = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    text = text.toLowerCase();
+    text = text.replace(/[^\p{L}\p{N}\s]/gu, ' ');
+    // Solo letras repetidas 3+ veces ("holaaa"); los números cambian el sentido (100 vs 10)
+    text = text.replace(/(\p{L})\1{2,}/gu, '$1');
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
   /**
    * Procesa múltiples mensajes en lote
    */
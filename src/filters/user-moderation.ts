@@ -0,0 +1,216 @@
+import { DataStorage } from 'json-obj-manager';
+import { JSONFile } from 'json-obj-manager/node';
+import path from 'path';
+import { normalizeUserKey } from '../services/userVoices';
+
+const tempPath = path.join(process.cwd(), 'temp');
+
+// Ban permanente (expiresAt null) o timeout (con expiresAt), igual que en FilterManager
+export interface UserBan {
+  userKey: string;
+  reason?: string;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+// Campos de usuario que extrae processIaResponse
+export interface ModerationIdentity {
+  id?: string;       // userId de la plataforma
+  uniqueId?: string;
+  username?: string;
+  displayName?: string;
+  nickname?: string;
+}
+
+export interface ModerationState {
+  allowListOnly: boolean; // Solo se leen los usuarios de allowList
+  bans: UserBan[];
+  allowList: string[];
+}
+
+export type ModerationResult =
+  | { allowed: true; userKey?: string }
+  | { allowed: false; reason: 'banned' | 'timeout' | 'not_allowed'; userKey?: string; message: string; expiresAt?: Date | null };
+
+// Lo que se guarda en temp/data/user-moderation.json
+export interface ModerationData {
+  allowListOnly: boolean;
+  bans: Record<string, UserBan>;
+  allowList: string[];
+}
+
+const dataStorage = new DataStorage<ModerationData>(new JSONFile(path.join(tempPath, 'data/user-moderation.json')));
+
+/**
+ * Bans, timeouts y lista de permitidos por usuario.
+ * Los bans coinciden con cualquiera de sus identificadores (también el nombre visible);
+ * la lista de permitidos solo con los estables (id, @uniqueId), porque el nombre
+ * visible lo elige el usuario y se puede suplantar.
+ */
+export class UserModeration {
+  private bans: Record<string, UserBan> = {};
+  private allowList: string[] = [];
+  private allowListOnly = false;
+  readonly ready: Promise<void>;
+
+  // storage: por defecto temp/data/user-moderation.json
+  constructor(private storage = dataStorage) {
+    this.ready = this.loadBackup();
+    // Igual que los filtros: limpiar los timeouts vencidos cada hora (unref: no mantiene vivo el proceso)
+    setInterval(() => this.cleanExpiredBans(), 60 * 60 * 1000).unref();
+  }
+
+  /**
+   * Banea a un usuario. Con durationSeconds es un timeout.
+   */
+  async ban(user: string, options: { durationSeconds?: number | null; reason?: string } = {}): Promise<UserBan | undefined> {
+    await this.ready;
+    const userKey = normalizeUserKey(user);
+    if (!userKey) return undefined;
+
+    const { durationSeconds = null, reason } = options;
+    const entry: UserBan = {
+      userKey,
+      reason: reason?.trim() || undefined,
+      expiresAt: durationSeconds ? new Date(Date.now() + durationSeconds * 1000) : null,
+      createdAt: new Date(),
+    };
+    this.bans[userKey] = entry;
+    this.saveData();
+    return entry;
+  }
+
+  async unban(user: string): Promise<boolean> {
+    await this.ready;
+    const userKey = normalizeUserKey(user);
+    if (!userKey || !this.bans[userKey]) return false;
+    delete this.bans[userKey];
+    this.saveData();
+    return true;
+  }
+
+  async allow(user: string): Promise<boolean> {
+    await this.ready;
+    const userKey = normalizeUserKey(user);
+    if (!userKey) return false;
+    if (!this.allowList.includes(userKey)) {
+      this.allowList.push(userKey);
+      this.saveData();
+    }
+    return true;
+  }
+
+  async disallow(user: string): Promise<boolean> {
+    await this.ready;
+    const userKey = normalizeUserKey(user);
+    const index = userKey ? this.allowList.indexOf(userKey) : -1;
+    if (index === -1) return false;
+    this.allowList.splice(index, 1);
+    this.saveData();
+    return true;
+  }
+
+  async setAllowListOnly(enabled: boolean): Promise<void> {
+    await this.ready;
+    this.allowListOnly = enabled;
+    this.saveData();
+  }
+
+  getBan(user: string): UserBan | undefined {
+    const userKey = normalizeUserKey(user);
+    const ban = userKey ? this.bans[userKey] : undefined;
+    return ban && !this.isExpired(ban) ? ban : undefined;
+  }
+
+  isAllowListed(identity: ModerationIdentity): boolean {
+    return this.stableKeys(identity).some(key => this.allowList.includes(key));
+  }
+
+  /**
+   * Comprueba si se deben leer los mensajes de un usuario
+   */
+  check(identity: ModerationIdentity): ModerationResult {
+    const keys = this.identityKeys(identity);
+    const userKey = keys[0];
+
+    for (const key of keys) {
+      const ban = this.bans[key];
+      if (!ban || this.isExpired(ban)) continue;
+      if (ban.expiresAt) {
+        return { allowed: false, reason: 'timeout', userKey: key, message: `User is timed out until ${ban.expiresAt.toLocaleString()}`, expiresAt: ban.expiresAt };
+      }
+      return { allowed: false, reason: 'banned', userKey: key, message: 'User is banned', expiresAt: null };
+    }
+
+    if (this.allowListOnly && !this.isAllowListed(identity)) {
+      return { allowed: false, reason: 'not_allowed', userKey, message: 'Only allow-listed users can use TTS' };
+    }
+    return { allowed: true, userKey };
+  }
+
+  list(): ModerationState {
+    return {
+      allowListOnly: this.allowListOnly,
+      bans: Object.values(this.bans).filter(ban => !this.isExpired(ban)),
+      allowList: [...this.allowList],
+    };
+  }
+
+  private identityKeys(identity: ModerationIdentity): string[] {
+    return this.normalizeKeys([identity.uniqueId, identity.username, identity.id, identity.displayName, identity.nickname]);
+  }
+
+  // Identificadores que el usuario no puede cambiar
+  private stableKeys(identity: ModerationIdentity): string[] {
+    return this.normalizeKeys([identity.uniqueId, identity.username, identity.id]);
+  }
+
+  private normalizeKeys(values: (string | undefined)[]): string[] {
+    const keys = values
+      .map(value => normalizeUserKey(value))
+      .filter((key): key is string => !!key);
+    return Array.from(new Set(keys));
+  }
+
+  private isExpired(ban: UserBan): boolean {
+    return ban.expiresAt !== null && new Date() > ban.expiresAt;
+  }
+
+  private cleanExpiredBans(): void {
+    const expired = Object.values(this.bans).filter(ban => this.isExpired(ban));
+    if (expired.length === 0) return;
+    expired.forEach(ban => delete this.bans[ban.userKey]);
+    this.saveData();
+  }
+
+  private saveData(): void {
+    this.storage.save('data', {
+      allowListOnly: this.allowListOnly,
+      bans: this.bans,
+      allowList: this.allowList,
+    }).catch((error: unknown) => console.error('Error saving user moderation:', error));
+  }
+
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await this.storage.load('data');
+      if (data) {
+        this.allowListOnly = !!data.allowListOnly;
+        this.allowList = Array.isArray(data.allowList) ? data.allowList : [];
+        this.bans = Object.fromEntries(
+          Object.entries<UserBan>(data.bans ?? {}).map(([key, ban]) => [key, {
+            ...ban,
+            createdAt: new Date(ban.createdAt),
+            expiresAt: ban.expiresAt ? new Date(ban.expiresAt) : null,
+          }])
+        );
+        this.cleanExpiredBans();
+      }
+    } catch (error) {
+      console.error('Error loading user moderation backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const userModeration = new UserModeration();
@@ -1,20 +1,37 @@
-import { Hono } from 'hono'
-import { upgradeWebSocket, websocket } from 'hono/bun'
-import { messageQueue } from './services/messageQueue'
-import { contentTEXT,processIaResponse } from './utils/index'
+import { Hono, type Context } from 'hono'
+import { upgradeWebSocket, websocket, getConnInfo } from 'hono/bun'
+import { messageQueue, isMessagePriority, MESSAGE_PRIORITIES, type Message } from './services/messageQueue'
+import { detectAdapter, type WebhookRequest } from './adapters/registry'
+import { displayNameOf, toMessageFields, validateChatEvent } from './events/chatEvent'
 import { SpamCleaner, createCleaner, quickClean } from "./filters/spam-cleaner"
-import { ConfigurableReplacer } from './controllers/ConfigurableReplacer'
 import { removeEmotes } from "./filters/clean-emotes"
-import { processCompleteText } from './services/tts'
-import { filterManager, checkText, addItemsToBlacklist, removeItemsFromBlacklist, addItemsToWhitelist, removeItemsFromWhitelist }  from './filters/filters'
+import { processCompleteText, TTS_Config } from './services/tts'
+import { filterManager, checkChatEvent }  from './filters/filters'
 import { cors } from 'hono/cors'
 import { emitter } from './Emitter'
+import voiceRoutes from './routes/voices'
+import ttsRoutes from './routes/tts'
+import rateLimitRoutes from './routes/rateLimit'
+import { rateLimiter } from './filters/rate-limiter'
+import { deduplicator } from './filters/deduplicator'
+import deduplicatorRoutes from './routes/deduplicator'
+import filterRoutes from './routes/filters'
+import moderationRoutes from './routes/moderation'
+import { userModeration } from './filters/user-moderation'
+import { textRewriter, localeFromVoice } from './filters/rewriter'
+import rewriteRoutes from './routes/rewrite'
+import templateRoutes from './routes/templates'
+import replacerRoutes from './routes/replacers'
+import { replacerConfigs } from './services/replacerConfigs'
+import { eventTemplates, buildTemplateData } from './services/eventTemplates'
+import { userVoiceManager } from './services/userVoices'
+import { playbackQueue } from './services/playbackQueue'
+import { createWsEvents } from './ws/session'
+import { PROTOCOL_VERSION, type AcceptedChatEvent, type RejectedEvent } from './ws/protocol'
+import { connectionManager } from './ws/connections'
 const app = new Hono()
-const configurableReplacer = new ConfigurableReplacer();
-const myFilter = filterManager.createFilter();
-const filterId = myFilter.id;
-let lastMessage = ''
-addItemsToBlacklist(filterId, ['palabra-prohibida-permanente']);
+// Filtro por defecto: se crea solo la primera vez
+filterManager.ensureFilter('default', { blackList: ['palabra-prohibida-permanente'] });
 app.use(cors({
   origin: '*',
 }))
@@ -39,14 +56,59 @@ app.get('/messages/size', (c) => {
   return c.json({ size: messageQueue.size(), unread: messageQueue.unreadSize() })
 })
 
+// Límites de la cola (maxSize, unreadTtlSeconds, overflowPolicy, maxReadMessages, agingSeconds)
+// y modo aprobación (approvalMode, autoApproveAllowListed)
+app.get('/messages/config', (c) => {
+  return c.json(messageQueue.getConfig())
+})
+
+app.put('/messages/config', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return c.json({ error: 'Invalid JSON body' }, 400)
+  const { maxSize, unreadTtlSeconds, overflowPolicy, maxReadMessages, agingSeconds, approvalMode, autoApproveAllowListed } = body
+  const update = Object.fromEntries(
+    Object.entries({ maxSize, unreadTtlSeconds, overflowPolicy, maxReadMessages, agingSeconds, approvalMode, autoApproveAllowListed })
+      .filter(([, value]) => value !== undefined)
+  )
+  // Si se desactiva el modo aprobación, los pendientes se aprueban y se leen
+  const released = update.approvalMode === false ? messageQueue.pending() : []
+  const errors = messageQueue.updateConfig(update)
+  if (errors.length > 0) return c.json({ error: 'Invalid queue config', details: errors }, 400)
+  released.forEach(msg => announceApproved(msg))
+  playbackQueue.pump()
+  return c.json(messageQueue.getConfig())
+})
+
+// Con la cola llena y drop-newest el mensaje nuevo no llega a entrar
+function queuedResponse(c: Context, created: Message) {
+  if (!messageQueue.get(created.id)) return c.json({ error: 'Queue is full', reason: 'overflow' }, 429)
+  playbackQueue.pump()
+  return c.json(created, 201)
+}
+
+// Acepta un ChatEvent (con "type") o los campos planos de siempre
+// priority (chat, subscriber, moderator, donation, system) es opcional; en un ChatEvent se calcula del tipo
 app.post('/messages', async (c) => {
+  let body: any
   try {
-    const body = await c.req.json()
-    const created = messageQueue.add(body as any)
-    return c.json(created, 201)
+    body = await c.req.json()
   } catch (e) {
     return c.json({ error: 'Invalid JSON body' }, 400)
   }
+  if (typeof body === 'object' && body !== null && body.priority !== undefined && !isMessagePriority(body.priority)) {
+    return c.json({ error: `"priority" must be one of ${MESSAGE_PRIORITIES.join(', ')}` }, 400)
+  }
+  if (typeof body === 'object' && body !== null && body.type !== undefined) {
+    const validation = validateChatEvent(body)
+    if (!validation.ok) return c.json({ error: 'Invalid chat event', details: validation.errors }, 400)
+    return queuedResponse(c, messageQueue.addEvent(validation.event, {}, body.priority))
+  }
+  return queuedResponse(c, messageQueue.add(body as any))
 })
 
 app.get('/messages/next', (c) => {
@@ -69,34 +131,236 @@ app.patch('/messages/read-all', (c) => {
   return c.json({ ok: true, count })
 })
 
+app.get('/messages/pending', (c) => {
+  return c.json(messageQueue.pending())
+})
+
+// Un mensaje aprobado se emite como cualquier mensaje aceptado (y pasa a leerse desde la cola)
+function announceApproved(msg: Message) {
+  const text = msg.text ?? msg.content ?? ''
+  if (msg.event) announce({ event: msg.event, text, spoken: msg.spoken ?? text, voice: msg.voice ?? TTS_Config.voice })
+}
+
+app.post('/messages/:id/approve', (c) => {
+  const msg = messageQueue.get(c.req.param('id'))
+  if (!msg) return c.json({ message: 'Message not found' }, 404)
+  if (!messageQueue.approve(msg.id)) return c.json({ error: 'Message is not pending' }, 409)
+  announceApproved(msg)
+  playbackQueue.pump()
+  return c.json({ ...msg, playbackId: playbackQueue.findByMessage(msg.id)?.id })
+})
+
+// { reason? } El rechazo llega a /ws como 'rejected' (reason: 'moderator')
+app.post('/messages/:id/reject', async (c) => {
+  let body: any = {}
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    // Sin cuerpo: rechazo sin motivo
+  }
+  const reason = body?.reason
+  if (reason !== undefined && typeof reason !== 'string') return c.json({ error: '"reason" must be a string' }, 400)
+  const msg = messageQueue.get(c.req.param('id'))
+  if (!msg) return c.json({ message: 'Message not found' }, 404)
+  if (!messageQueue.reject(msg.id, reason?.trim() || undefined)) return c.json({ error: 'Message is not pending' }, 409)
+  const rejected: RejectedEvent = {
+    user: msg.event ? displayNameOf(msg.event.user) : msg.displayName,
+    userKey: msg.userKey,
+    text: msg.text,
+    reason: 'moderator',
+    message: msg.rejectReason ?? 'Rejected by a moderator',
+    event: msg.event,
+  }
+  emitter.emit('rejected', rejected)
+  return c.json({ ok: true })
+})
+
+// Edita el texto antes de que se lea y/o la prioridad
+app.patch('/messages/:id', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body !== 'object' || body === null) return c.json({ error: 'Invalid JSON body' }, 400)
+  if (body.text !== undefined && (typeof body.text !== 'string' || !body.text.trim())) {
+    return c.json({ error: '"text" must be a non-empty string' }, 400)
+  }
+  if (body.priority !== undefined && !isMessagePriority(body.priority)) {
+    return c.json({ error: `"priority" must be one of ${MESSAGE_PRIORITIES.join(', ')}` }, 400)
+  }
+  if (body.text === undefined && body.priority === undefined) return c.json({ error: '"text" or "priority" is required' }, 400)
+  const msg = messageQueue.update(c.req.param('id'), { text: body.text, priority: body.priority })
+  if (!msg) return c.json({ message: 'Message not found' }, 404)
+  return c.json(msg)
+})
+
+app.delete('/messages/:id', (c) => {
+  if (!messageQueue.remove(c.req.param('id'))) return c.json({ message: 'Message not found' }, 404)
+  return c.json({ ok: true })
+})
+
+// { position: 'top' | número } posición en el orden de lectura (0 = el siguiente)
+app.post('/messages/:id/move', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  const position = body?.position
+  if (position !== 'top' && !(Number.isInteger(position) && position >= 0)) {
+    return c.json({ error: '"position" must be "top" or a non-negative integer' }, 400)
+  }
+  const msg = messageQueue.get(c.req.param('id'))
+  if (!msg) return c.json({ message: 'Message not found' }, 404)
+  const index = messageQueue.move(msg.id, position)
+  if (index === undefined) return c.json({ error: 'Only unread messages that are not held can be moved' }, 409)
+  return c.json({ ok: true, position: index })
+})
+
+app.post('/messages/:id/requeue', (c) => {
+  const msg = messageQueue.requeue(c.req.param('id'))
+  if (!msg) return c.json({ message: 'Message not found' }, 404)
+  playbackQueue.pump()
+  return c.json(msg)
+})
+
+// Retiene un mensaje hasta que un moderador lo libere
+app.post('/messages/:id/hold', (c) => {
+  const msg = messageQueue.hold(c.req.param('id'))
+  if (!msg) return c.json({ message: 'Message not found' }, 404)
+  return c.json(msg)
+})
+
+app.post('/messages/:id/release', (c) => {
+  const msg = messageQueue.release(c.req.param('id'))
+  if (!msg) return c.json({ message: 'Message not found' }, 404)
+  playbackQueue.pump()
+  return c.json(msg)
+})
+
 app.delete('/messages', (c) => {
   messageQueue.clear()
   return c.json({ ok: true })
 })
 
+// Emite un evento aceptado (o aprobado). Se reproduce después, cuando salga de la cola
+function announce(accepted: AcceptedChatEvent & { voice: string }) {
+  emitter.emit('text', accepted.text)
+  emitter.emit('chat-event', accepted)
+}
+
+// La cola de mensajes es la única fuente de lo que se lee: la reproducción saca
+// el siguiente mensaje (con sus prioridades, ediciones, retenidos y aprobaciones)
+// solo cuando hay overlays escuchando y queda hueco. Su progreso se guarda aparte
+// de isRead: quien use GET /messages/next sigue viendo todos los mensajes, y los
+// que no llegan a sonar vuelven a esperar.
+playbackQueue.setSource({
+  next: () => {
+    const msg = messageQueue.claimForPlayback()
+    if (!msg) return undefined
+    const voice = msg.voice ?? TTS_Config.voice
+    const text = msg.text ?? msg.content ?? ''
+    return {
+      messageId: msg.id,
+      // Sin spoken (mensajes de POST /messages o editados) se reescribe ahora
+      text: msg.spoken ?? textRewriter.apply(quickClean(text), localeFromVoice(voice)).text,
+      user: msg.event ? displayNameOf(msg.event.user) : msg.displayName,
+      userKey: msg.userKey,
+      voice,
+    }
+  },
+  settle: (messageId, outcome) => {
+    messageQueue.settlePlayback(messageId, outcome === 'played' || outcome === 'skipped')
+  },
+})
+
+// Mensajes de un usuario que esperan para sonar (en la cola o ya en la reproducción).
+// Sin overlays no se va a leer nada: 0 (no limita a nadie)
+function queuedFor(userKey?: string): number {
+  if (!userKey || !playbackQueue.hasListeners()) return 0
+  return messageQueue.playbackOrder().filter(m => m.userKey === userKey).length + playbackQueue.pendingCount(userKey)
+}
+
 app.post('/webhook', async (c) => {
+  // ?replacer=<instanceId> elige la configuración de ConfigurableReplacer (por defecto 'default')
+  const replacer = replacerConfigs.getReplacer(c.req.query('replacer') || undefined)
+  if (!replacer) return c.json({ message: 'Replacer config not found' }, 404)
   try {
-    const body = await c.req.json()
-    const NoteventNames = ["server","join","leave","join","unknown"]
-    const processedMessage = processIaResponse(body)
-    const {user,msg} = contentTEXT(processedMessage)
-    const cleanText = removeEmotes(configurableReplacer.replace("user msg",{user,msg,body}))
-    if (!user&&!msg|| NoteventNames.includes(body.eventName) || checkText(cleanText)?.isBlocked){
-      console.log("ignore",{user,msg},body.eventName)
-      return c.json({ data: 'Invalid JSON body',processedMessage }, 200);
+    // El cuerpo sin parsear hace falta para comprobar firmas (Twitch EventSub)
+    const rawBody = await c.req.text()
+    const request: WebhookRequest = { headers: c.req.header(), query: c.req.query(), body: JSON.parse(rawBody), rawBody }
+    const adapter = detectAdapter(request)
+    // Desafíos de verificación o firmas inválidas: se responde sin procesar nada
+    const reply = adapter.handshake?.(request)
+    if (reply) return reply.status === 204 ? c.body(null, 204) : c.text(reply.body ?? '', reply.status)
+    // Cada plataforma (TikTok, Twitch, YouTube, Kick o genérico) se traduce a un ChatEvent
+    const event = adapter.parse(request)
+    const fields = toMessageFields(event)
+    // Usuarios baneados o fuera de la lista de permitidos: no se procesa el texto
+    const moderation = userModeration.check(fields)
+    if (!moderation.allowed) {
+      console.log("moderated",{userKey:moderation.userKey,reason:moderation.reason})
+      const rejected: RejectedEvent = { userKey: moderation.userKey, reason: moderation.reason, message: moderation.message, event }
+      emitter.emit('rejected', rejected)
+      return c.json({ ok: false, reason: moderation.reason, message: moderation.message, expiresAt: moderation.expiresAt }, 200)
+    }
+    const user = displayNameOf(event.user)
+    const msg = event.text
+    // Cada tipo de evento se lee con su plantilla (y se ignora si está desactivada)
+    const template = eventTemplates.resolve(event.eventName)
+    const cleanText = removeEmotes(replacer.replace(template.template,buildTemplateData(event, request.body)))
+    const verdict = checkChatEvent(event, cleanText)
+    if (!user&&!msg|| !template.enabled || verdict.isBlocked){
+      console.log("ignore",{user,msg},event.platform,event.eventName)
+      return c.json({ data: 'Invalid JSON body',processedMessage: fields }, 200);
     }
-    if (lastMessage === cleanText || lastMessage.toLowerCase() === cleanText.toLowerCase()) {
-      console.log("ignore",{user,msg},body.eventName)
-      return c.json({ data: 'Invalid JSON body',processedMessage }, 200);
+    const { voice, userKey } = userVoiceManager.resolveVoice({
+      uniqueId: fields.uniqueId,
+      username: fields.username,
+      user,
+    })
+    const duplicate = deduplicator.check(cleanText)
+    if (duplicate.duplicate) {
+      console.log("duplicate",{user,msg,match:duplicate.match})
+      const rejected: RejectedEvent = { user, userKey, text: cleanText, reason: 'duplicate', message: 'Message is too similar to a recent one', event }
+      emitter.emit('rejected', rejected)
+      return c.json({ ok: false, reason: rejected.reason, message: rejected.message, similarity: duplicate.similarity }, 200)
     }
-    lastMessage = cleanText
+    const limit = rateLimiter.check(userKey, queuedFor(userKey))
+    if (!limit.allowed) {
+      console.log("rate limited",{user,reason:limit.reason})
+      const rejected: RejectedEvent = { user, userKey, text: cleanText, reason: limit.reason, message: limit.message, event }
+      emitter.emit('rejected', rejected)
+      return c.json({ ok: false, reason: limit.reason, message: limit.message, retryAfter: limit.retryAfterSeconds }, 200)
+    }
+    deduplicator.add(cleanText)
     console.log("{user,msg}",{user,msg})
     const cleaned = quickClean(cleanText)
+    // Reemplazos y pronunciación: se muestra el texto limpio y se lee el reescrito
+    const spoken = textRewriter.apply(cleaned, localeFromVoice(voice)).text
     console.log("processedMessage",{
-      cleaned
-    },body.eventName)
-    emitter.emit('text',cleaned)
-    return c.json({ ok: true, cleaned })
+      cleaned,
+      spoken,
+      voice
+    },event.platform,event.eventName)
+    // Todo lo aceptado se guarda en la cola para que /messages vea lo mismo que /ws
+    // (los campos de usuario y el texto original vienen del evento; text es el limpio)
+    const stored = { text: cleaned, spoken, voice, userKey, filter: verdict }
+    // Modo aprobación: el mensaje espera en la cola hasta POST /messages/:id/approve
+    const queueConfig = messageQueue.getConfig()
+    if (queueConfig.approvalMode && !(queueConfig.autoApproveAllowListed && userModeration.isAllowListed(fields))) {
+      const pending = messageQueue.addEvent(event, { ...stored, status: 'pending' })
+      if (!messageQueue.get(pending.id)) return c.json({ ok: false, reason: 'overflow', message: 'Queue is full' }, 200)
+      return c.json({ ok: true, pending: true, messageId: pending.id, cleaned, spoken, voice })
+    }
+    const message = messageQueue.addEvent(event, stored)
+    if (!messageQueue.get(message.id)) return c.json({ ok: false, reason: 'overflow', message: 'Queue is full' }, 200)
+    announce({ event, text: cleaned, spoken, voice })
+    playbackQueue.pump()
+    return c.json({ ok: true, cleaned, spoken, voice, messageId: message.id, playbackId: playbackQueue.findByMessage(message.id)?.id })
   } catch (e) {
     return c.json({ error: 'Invalid JSON body' }, 400)
   }
@@ -105,33 +369,44 @@ app.get('/api/tts', async (c) => {
   try {
     const text = c.req.query('text')
     if (!text) return c.json({ error: 'Text parameter is required' }, 400)
-    const cleaned = quickClean(text)
-    const audioData = await processCompleteText(cleaned)
+    const user = c.req.query('user')
+    const voice = c.req.query('voice') || (user ? userVoiceManager.resolveVoice({ uniqueId: user }).voice : undefined)
+    const cleaned = textRewriter.apply(quickClean(text), localeFromVoice(voice ?? TTS_Config.voice)).text
+    const audioData = await processCompleteText(cleaned, voice)
     return c.json({ ok: true, audioData })
   } catch (e) {
     return c.json({ error: 'Failed to process TTS request', details: e }, 500)
   }
 })
+app.route('/api/voices', voiceRoutes)
+app.route('/api/tts', ttsRoutes)
+app.route('/api/rate-limit', rateLimitRoutes)
+app.route('/api/deduplicator', deduplicatorRoutes)
+app.route('/api/filters', filterRoutes)
+app.route('/api/moderation', moderationRoutes)
+app.route('/api/rewrite', rewriteRoutes)
+app.route('/api/templates', templateRoutes)
+app.route('/api/replacers', replacerRoutes)
+// /ws?v=1 usa el protocolo JSON versionado; sin versión se mantiene el formato antiguo
 app.get(
   '/ws',
   upgradeWebSocket((c) => {
-    return {
-      onMessage(event, ws) {
-        console.log(`Message from client: ${event.data}`)
-        ws.send('Hello from server!')
-      },
-      onClose: () => {
-        console.log('Connection closed')
-      },
-      onOpen: (event,ws) => {
-        console.log('Connection opened')
-        emitter.on('text',(msg) => {
-          ws.send(msg)
-        })
-      }
+    let remoteAddress: string | undefined
+    try {
+      remoteAddress = getConnInfo(c).remote.address
+    } catch (e) {
+      // Sin información de conexión (por ejemplo en tests)
     }
+    const version = c.req.query('v') === String(PROTOCOL_VERSION) ? PROTOCOL_VERSION : 0
+    return createWsEvents(version, { remoteAddress })
   })
 )
+app.get('/api/ws/clients', (c) => {
+  return c.json({ count: connectionManager.size(), clients: connectionManager.list() })
+})
+
+// La app de Hono se exporta también para los tests (app.request)
+export { app }
 
 export default {
   fetch: app.fetch,
@@ -0,0 +1,42 @@
+import { Hono } from 'hono'
+import { deduplicator } from '../filters/deduplicator'
+
+const dedup = new Hono()
+
+dedup.get('/', (c) => {
+  return c.json(deduplicator.getConfig())
+})
+
+dedup.put('/', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  const errors = deduplicator.updateConfig(body)
+  if (errors.length > 0) return c.json({ error: 'Invalid deduplicator config', details: errors }, 400)
+  return c.json(deduplicator.getConfig())
+})
+
+// Compara un texto con la ventana actual sin añadirlo
+dedup.post('/check', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body?.text !== 'string') return c.json({ error: '"text" is required' }, 400)
+  return c.json(deduplicator.check(body.text))
+})
+
+dedup.delete('/window', (c) => {
+  deduplicator.clear()
+  return c.json({ ok: true })
+})
+
+export default dedup
@@ -0,0 +1,235 @@
+import { Hono, type Context } from 'hono'
+import { filterManager as defaultFilterManager, FILTER_SCOPES, type BlackListRule, type CheckOptions, type FilterManager, type FilterScope } from '../filters/filters'
+import { MATCH_MODES, validateRegex, type MatchMode } from '../filters/matchers'
+
+type Validated<T> = { ok: true; value: T } | { ok: false; error: string }
+
+async function readBody(c: Context): Promise<Record<string, any> | null> {
+  try {
+    const body = await c.req.json()
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? body : null
+  } catch (e) {
+    return null
+  }
+}
+
+function validateItems(value: unknown, field = 'items'): Validated<string[]> {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, error: `"${field}" must be a non-empty array of strings` }
+  }
+  if (value.some(item => typeof item !== 'string' || !item.trim())) {
+    return { ok: false, error: `"${field}" must only contain non-empty strings` }
+  }
+  return { ok: true, value }
+}
+
+function validateOptionalList(value: unknown, field: string): Validated<string[] | undefined> {
+  if (value === undefined) return { ok: true, value: undefined }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    return { ok: false, error: `"${field}" must be an array of non-empty strings` }
+  }
+  return { ok: true, value }
+}
+
+function validateCheckOptions(value: unknown): Validated<CheckOptions> {
+  if (value === undefined) return { ok: true, value: {} }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, error: '"options" must be an object' }
+  }
+  const options = value as Record<string, unknown>
+  for (const key of ['caseSensitive', 'exactMatch', 'partialMatch']) {
+    if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+      return { ok: false, error: `"options.${key}" must be a boolean` }
+    }
+  }
+  if (options.target !== undefined && options.target !== 'text' && options.target !== 'user') {
+    return { ok: false, error: '"options.target" must be "text" or "user"' }
+  }
+  return { ok: true, value: options as CheckOptions }
+}
+
+function validateRule(body: Record<string, any>, items: string[]): Validated<BlackListRule> {
+  const { mode, normalize } = body
+  if (mode !== undefined && !MATCH_MODES.includes(mode)) {
+    return { ok: false, error: `"mode" must be one of ${MATCH_MODES.join(', ')}` }
+  }
+  if (normalize !== undefined && typeof normalize !== 'boolean') {
+    return { ok: false, error: '"normalize" must be a boolean' }
+  }
+  if (mode === 'regex') {
+    for (const item of items) {
+      const error = validateRegex(item.trim())
+      if (error) return { ok: false, error: `Invalid pattern "${item}": ${error}` }
+    }
+  }
+  return { ok: true, value: { mode: mode as MatchMode | undefined, normalize } }
+}
+
+function validateScope(value: unknown): Validated<FilterScope | undefined> {
+  if (value === undefined) return { ok: true, value: undefined }
+  if (!FILTER_SCOPES.includes(value as FilterScope)) {
+    return { ok: false, error: `"scope" must be one of ${FILTER_SCOPES.join(', ')}` }
+  }
+  return { ok: true, value: value as FilterScope }
+}
+
+function validateName(value: unknown): Validated<string | undefined> {
+  if (value === undefined) return { ok: true, value: undefined }
+  if (typeof value !== 'string' || !value.trim()) return { ok: false, error: '"name" must be a non-empty string' }
+  return { ok: true, value }
+}
+
+// Los nombres son únicos
+function isNameTaken(filterManager: FilterManager, name: string | undefined, currentId?: string): boolean {
+  if (!name) return false
+  const existing = filterManager.getFilterByName(name)
+  return !!existing && existing.id !== currentId
+}
+
+/**
+ * Rutas de /api/filters sobre un FilterManager (por defecto el compartido)
+ */
+export function createFilterRoutes(filterManager: FilterManager = defaultFilterManager): Hono {
+  const filters = new Hono()
+
+  filters.get('/', (c) => {
+    const active = c.req.query('active')
+    const scope = c.req.query('scope')
+    const list = filterManager.getAllFilters(active === 'true' || active === '1')
+    return c.json(scope ? list.filter(f => f.scope === scope) : list)
+  })
+
+  filters.get('/stats', (c) => {
+    return c.json(filterManager.getStats())
+  })
+
+  filters.get('/search', (c) => {
+    const q = c.req.query('q')
+    if (!q) return c.json({ error: 'Query parameter "q" is required' }, 400)
+    return c.json(filterManager.searchFilters(q))
+  })
+
+  // Prueba un texto contra los filtros activos sin efectos secundarios
+  filters.post('/check', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    if (typeof body.text !== 'string') return c.json({ error: '"text" is required' }, 400)
+    const options = validateCheckOptions(body.options)
+    if (!options.ok) return c.json({ error: options.error }, 400)
+    return c.json(filterManager.checkString(body.text, options.value))
+  })
+
+  filters.post('/', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const blackList = validateOptionalList(body.blackList, 'blackList')
+    if (!blackList.ok) return c.json({ error: blackList.error }, 400)
+    const whiteList = validateOptionalList(body.whiteList, 'whiteList')
+    if (!whiteList.ok) return c.json({ error: whiteList.error }, 400)
+    const scope = validateScope(body.scope)
+    if (!scope.ok) return c.json({ error: scope.error }, 400)
+    const name = validateName(body.name)
+    if (!name.ok) return c.json({ error: name.error }, 400)
+    if (isNameTaken(filterManager, name.value)) return c.json({ error: 'A filter with that name already exists' }, 409)
+    const created = filterManager.createFilter(blackList.value, whiteList.value, { name: name.value, scope: scope.value })
+    return c.json(created, 201)
+  })
+
+  filters.get('/:id', (c) => {
+    const filter = filterManager.getFilter(c.req.param('id'))
+    if (!filter) return c.json({ message: 'Filter not found' }, 404)
+    return c.json(filter)
+  })
+
+  // Reemplaza las listas y/o cambia el estado del filtro
+  filters.put('/:id', async (c) => {
+    const id = c.req.param('id')
+    if (!filterManager.getFilter(id)) return c.json({ message: 'Filter not found' }, 404)
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const blackList = validateOptionalList(body.blackList, 'blackList')
+    if (!blackList.ok) return c.json({ error: blackList.error }, 400)
+    const whiteList = validateOptionalList(body.whiteList, 'whiteList')
+    if (!whiteList.ok) return c.json({ error: whiteList.error }, 400)
+    if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+      return c.json({ error: '"isActive" must be a boolean' }, 400)
+    }
+    const scope = validateScope(body.scope)
+    if (!scope.ok) return c.json({ error: scope.error }, 400)
+    const name = validateName(body.name)
+    if (!name.ok) return c.json({ error: name.error }, 400)
+    if (isNameTaken(filterManager, name.value, id)) return c.json({ error: 'A filter with that name already exists' }, 409)
+
+    if (blackList.value || whiteList.value) filterManager.updateFilter(id, blackList.value, whiteList.value)
+    if (name.value || scope.value) filterManager.setFilterOptions(id, { name: name.value, scope: scope.value })
+    if (body.isActive !== undefined) filterManager.toggleFilter(id, body.isActive)
+    return c.json(filterManager.getFilter(id))
+  })
+
+  filters.post('/:id/toggle', async (c) => {
+    const id = c.req.param('id')
+    if (!filterManager.toggleFilter(id)) return c.json({ message: 'Filter not found' }, 404)
+    return c.json(filterManager.getFilter(id))
+  })
+
+  filters.delete('/:id', (c) => {
+    if (!filterManager.deleteFilter(c.req.param('id'))) return c.json({ message: 'Filter not found' }, 404)
+    return c.json({ ok: true })
+  })
+
+  // Lista negra: { items, expiresInSeconds?, mode?, normalize? }
+  // expiresInSeconds para bans temporales; mode: partial, exact, word, wildcard o regex
+  filters.post('/:id/blacklist', async (c) => {
+    const id = c.req.param('id')
+    if (!filterManager.getFilter(id)) return c.json({ message: 'Filter not found' }, 404)
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const items = validateItems(body.items)
+    if (!items.ok) return c.json({ error: items.error }, 400)
+    const { expiresInSeconds = null } = body
+    if (expiresInSeconds !== null && (typeof expiresInSeconds !== 'number' || !(expiresInSeconds > 0))) {
+      return c.json({ error: '"expiresInSeconds" must be a positive number' }, 400)
+    }
+    const rule = validateRule(body, items.value)
+    if (!rule.ok) return c.json({ error: rule.error }, 400)
+    filterManager.addToBlackList(id, items.value, expiresInSeconds, rule.value)
+    return c.json(filterManager.getFilter(id))
+  })
+
+  filters.delete('/:id/blacklist', async (c) => {
+    const id = c.req.param('id')
+    if (!filterManager.getFilter(id)) return c.json({ message: 'Filter not found' }, 404)
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const items = validateItems(body.items)
+    if (!items.ok) return c.json({ error: items.error }, 400)
+    filterManager.removeFromBlackList(id, items.value)
+    return c.json(filterManager.getFilter(id))
+  })
+
+  filters.post('/:id/whitelist', async (c) => {
+    const id = c.req.param('id')
+    if (!filterManager.getFilter(id)) return c.json({ message: 'Filter not found' }, 404)
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const items = validateItems(body.items)
+    if (!items.ok) return c.json({ error: items.error }, 400)
+    filterManager.addToWhiteList(id, items.value)
+    return c.json(filterManager.getFilter(id))
+  })
+
+  filters.delete('/:id/whitelist', async (c) => {
+    const id = c.req.param('id')
+    if (!filterManager.getFilter(id)) return c.json({ message: 'Filter not found' }, 404)
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const items = validateItems(body.items)
+    if (!items.ok) return c.json({ error: items.error }, 400)
+    filterManager.removeFromWhiteList(id, items.value)
+    return c.json(filterManager.getFilter(id))
+  })
+
+  return filters
+}
+
+export default createFilterRoutes()
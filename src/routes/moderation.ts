@@ -0,0 +1,77 @@
+import { Hono } from 'hono'
+import { userModeration as defaultUserModeration, type UserModeration } from '../filters/user-moderation'
+
+/**
+ * Rutas de /api/moderation sobre un UserModeration (por defecto el compartido)
+ */
+export function createModerationRoutes(userModeration: UserModeration = defaultUserModeration): Hono {
+  const moderation = new Hono()
+
+  moderation.get('/', (c) => {
+    return c.json(userModeration.list())
+  })
+
+  // Comprueba un usuario sin leer ningún mensaje: ?user=nick
+  moderation.get('/check', (c) => {
+    const user = c.req.query('user')
+    if (!user) return c.json({ error: 'Query parameter "user" is required' }, 400)
+    return c.json(userModeration.check({ uniqueId: user }))
+  })
+
+  // { user, durationSeconds?, reason? } — con durationSeconds es un timeout
+  moderation.post('/bans', async (c) => {
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch (e) {
+      return c.json({ error: 'Invalid JSON body' }, 400)
+    }
+    if (typeof body?.user !== 'string' || !body.user.trim()) return c.json({ error: '"user" is required' }, 400)
+    const { durationSeconds = null, reason } = body
+    if (durationSeconds !== null && (typeof durationSeconds !== 'number' || !(durationSeconds > 0))) {
+      return c.json({ error: '"durationSeconds" must be a positive number' }, 400)
+    }
+    if (reason !== undefined && typeof reason !== 'string') return c.json({ error: '"reason" must be a string' }, 400)
+    const ban = await userModeration.ban(body.user, { durationSeconds, reason })
+    return c.json(ban, 201)
+  })
+
+  moderation.delete('/bans/:user', async (c) => {
+    if (!(await userModeration.unban(c.req.param('user')))) return c.json({ message: 'Ban not found' }, 404)
+    return c.json({ ok: true })
+  })
+
+  moderation.post('/allow', async (c) => {
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch (e) {
+      return c.json({ error: 'Invalid JSON body' }, 400)
+    }
+    if (typeof body?.user !== 'string' || !body.user.trim()) return c.json({ error: '"user" is required' }, 400)
+    await userModeration.allow(body.user)
+    return c.json(userModeration.list())
+  })
+
+  moderation.delete('/allow/:user', async (c) => {
+    if (!(await userModeration.disallow(c.req.param('user')))) return c.json({ message: 'User not found' }, 404)
+    return c.json({ ok: true })
+  })
+
+  // { allowListOnly: boolean }
+  moderation.put('/mode', async (c) => {
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch (e) {
+      return c.json({ error: 'Invalid JSON body' }, 400)
+    }
+    if (typeof body?.allowListOnly !== 'boolean') return c.json({ error: '"allowListOnly" must be a boolean' }, 400)
+    await userModeration.setAllowListOnly(body.allowListOnly)
+    return c.json(userModeration.list())
+  })
+
+  return moderation
+}
+
+export default createModerationRoutes()
@@ -0,0 +1,31 @@
+import { Hono } from 'hono'
+import { rateLimiter } from '../filters/rate-limiter'
+
+const rateLimit = new Hono()
+
+rateLimit.get('/', (c) => {
+  return c.json(rateLimiter.getConfig())
+})
+
+rateLimit.put('/', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  const errors = rateLimiter.updateConfig(body)
+  if (errors.length > 0) return c.json({ error: 'Invalid rate limit config', details: errors }, 400)
+  return c.json(rateLimiter.getConfig())
+})
+
+// Vacía los contadores (por ejemplo tras cambiar de directo)
+rateLimit.post('/reset', (c) => {
+  rateLimiter.reset()
+  return c.json({ ok: true })
+})
+
+export default rateLimit
@@ -0,0 +1,86 @@
+import { Hono, type Context } from 'hono'
+import { replacerConfigs as defaultReplacerConfigs, type ReplacerConfigInput, type ReplacerConfigManager } from '../services/replacerConfigs'
+
+async function readBody(c: Context): Promise<Record<string, any> | null> {
+  try {
+    const body = await c.req.json()
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? body : null
+  } catch (e) {
+    return null
+  }
+}
+
+// Campos que se pueden enviar al crear o modificar una instancia
+const EDITABLE_FIELDS = ['instanceId', 'replacements', 'removeBackslashes', 'useLocalStorage', 'localStorageKeys'] as const
+
+function pickConfig(body: Record<string, any>): ReplacerConfigInput {
+  const input: Record<string, unknown> = {}
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) input[field] = body[field]
+  }
+  return input as ReplacerConfigInput
+}
+
+/**
+ * Rutas de /api/replacers sobre un ReplacerConfigManager (por defecto el compartido)
+ */
+export function createReplacerRoutes(replacerConfigs: ReplacerConfigManager = defaultReplacerConfigs): Hono {
+  const replacers = new Hono()
+
+  replacers.get('/', (c) => {
+    return c.json(replacerConfigs.list())
+  })
+
+  // ?instanceId=a,b para exportar solo algunas instancias
+  replacers.get('/export', (c) => {
+    const ids = c.req.query('instanceId')
+    return c.json(replacerConfigs.export(ids ? ids.split(',').map(id => id.trim()).filter(Boolean) : undefined))
+  })
+
+  // { configs: [...], overwrite? } — acepta directamente el resultado de /export
+  replacers.post('/import', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    if (body.overwrite !== undefined && typeof body.overwrite !== 'boolean') {
+      return c.json({ error: '"overwrite" must be a boolean' }, 400)
+    }
+    const result = replacerConfigs.import(body.configs, body.overwrite)
+    if (!result.ok) return c.json({ error: 'Invalid configs', details: result.errors }, 400)
+    return c.json(result)
+  })
+
+  replacers.post('/', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const result = replacerConfigs.create(pickConfig(body))
+    if (!result.ok) {
+      if (result.conflict) return c.json({ error: 'A replacer config with that instanceId already exists' }, 409)
+      return c.json({ error: 'Invalid replacer config', details: result.errors }, 400)
+    }
+    return c.json(result.config, 201)
+  })
+
+  replacers.get('/:instanceId', (c) => {
+    const config = replacerConfigs.get(c.req.param('instanceId'))
+    if (!config) return c.json({ message: 'Replacer config not found' }, 404)
+    return c.json(config)
+  })
+
+  replacers.put('/:instanceId', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const result = replacerConfigs.update(c.req.param('instanceId'), pickConfig(body))
+    if (!result) return c.json({ message: 'Replacer config not found' }, 404)
+    if (!result.ok) return c.json({ error: 'Invalid replacer config', details: result.errors }, 400)
+    return c.json(result.config)
+  })
+
+  replacers.delete('/:instanceId', (c) => {
+    if (!replacerConfigs.remove(c.req.param('instanceId'))) return c.json({ message: 'Replacer config not found' }, 404)
+    return c.json({ ok: true })
+  })
+
+  return replacers
+}
+
+export default createReplacerRoutes()
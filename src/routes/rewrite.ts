@@ -0,0 +1,78 @@
+import { Hono, type Context } from 'hono'
+import { textRewriter as defaultTextRewriter, localeFromVoice, type RewriteRuleInput, type TextRewriter } from '../filters/rewriter'
+import { quickClean } from '../filters/spam-cleaner'
+import { TTS_Config } from '../services/tts'
+
+const RULE_FIELDS: (keyof RewriteRuleInput)[] = ['type', 'pattern', 'replacement', 'caseSensitive', 'locale', 'enabled']
+
+// Solo los campos editables de una regla
+function pickRule(body: Record<string, any>): RewriteRuleInput {
+  const input: Record<string, unknown> = {}
+  for (const field of RULE_FIELDS) {
+    if (body[field] !== undefined) input[field] = body[field]
+  }
+  return input as RewriteRuleInput
+}
+
+async function readBody(c: Context): Promise<Record<string, any> | null> {
+  try {
+    const body = await c.req.json()
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? body : null
+  } catch (e) {
+    return null
+  }
+}
+
+/**
+ * Rutas de /api/rewrite sobre un TextRewriter (por defecto el compartido)
+ */
+export function createRewriteRoutes(textRewriter: TextRewriter = defaultTextRewriter): Hono {
+  const rewrite = new Hono()
+
+  rewrite.get('/', (c) => {
+    return c.json(textRewriter.list())
+  })
+
+  // Muestra cómo quedaría un texto: { text, voice?, locale? }
+  rewrite.post('/preview', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    if (typeof body.text !== 'string') return c.json({ error: '"text" is required' }, 400)
+    const voice = typeof body.voice === 'string' ? body.voice : TTS_Config.voice
+    const locale = typeof body.locale === 'string' ? body.locale : localeFromVoice(voice)
+    const cleaned = quickClean(body.text)
+    return c.json({ ...textRewriter.apply(cleaned, locale), cleaned, locale })
+  })
+
+  rewrite.post('/', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const result = textRewriter.add(pickRule(body))
+    if (!result.ok) return c.json({ error: 'Invalid rewrite rule', details: result.errors }, 400)
+    return c.json(result.rule, 201)
+  })
+
+  rewrite.get('/:id', (c) => {
+    const rule = textRewriter.get(c.req.param('id'))
+    if (!rule) return c.json({ message: 'Rule not found' }, 404)
+    return c.json(rule)
+  })
+
+  rewrite.put('/:id', async (c) => {
+    const body = await readBody(c)
+    if (!body) return c.json({ error: 'Invalid JSON body' }, 400)
+    const result = textRewriter.update(c.req.param('id'), pickRule(body))
+    if (!result) return c.json({ message: 'Rule not found' }, 404)
+    if (!result.ok) return c.json({ error: 'Invalid rewrite rule', details: result.errors }, 400)
+    return c.json(result.rule)
+  })
+
+  rewrite.delete('/:id', (c) => {
+    if (!textRewriter.remove(c.req.param('id'))) return c.json({ message: 'Rule not found' }, 404)
+    return c.json({ ok: true })
+  })
+
+  return rewrite
+}
+
+export default createRewriteRoutes()
@@ -0,0 +1,79 @@
+import { Hono } from 'hono'
+import { eventTemplates as defaultEventTemplates, buildTemplateData, type EventTemplateManager } from '../services/eventTemplates'
+import { replacerConfigs as defaultReplacerConfigs, type ReplacerConfigManager } from '../services/replacerConfigs'
+import { removeEmotes } from '../filters/clean-emotes'
+import { normalizeWebhook, getAdapter } from '../adapters/registry'
+import { PLATFORMS } from '../adapters/types'
+
+/**
+ * Rutas de /api/templates sobre unas plantillas y unos replacers (por defecto los compartidos)
+ */
+export function createTemplateRoutes(
+  eventTemplates: EventTemplateManager = defaultEventTemplates,
+  replacerConfigs: ReplacerConfigManager = defaultReplacerConfigs,
+): Hono {
+  const templates = new Hono()
+
+  templates.get('/', (c) => {
+    return c.json(eventTemplates.list())
+  })
+
+  // Muestra cómo se leería un evento: { eventName?, body?, platform?, template?, replacer? }
+  // Sin eventName se usa el que detecte el adaptador de la plataforma
+  templates.post('/preview', async (c) => {
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch (e) {
+      return c.json({ error: 'Invalid JSON body' }, 400)
+    }
+    if (typeof body !== 'object' || body === null) return c.json({ error: 'Invalid JSON body' }, 400)
+    if (body.template !== undefined && typeof body.template !== 'string') return c.json({ error: '"template" must be a string' }, 400)
+
+    if (body.replacer !== undefined && typeof body.replacer !== 'string') return c.json({ error: '"replacer" must be a string' }, 400)
+    const replacer = replacerConfigs.getReplacer(body.replacer)
+    if (!replacer) return c.json({ message: 'Replacer config not found' }, 404)
+
+    if (body.platform !== undefined && (typeof body.platform !== 'string' || !getAdapter(body.platform))) {
+      return c.json({ error: `"platform" must be one of ${PLATFORMS.join(', ')}` }, 400)
+    }
+
+    const payload = typeof body.body === 'object' && body.body !== null ? body.body : {}
+    const event = normalizeWebhook({ headers: {}, query: { platform: body.platform }, body: payload })
+    const template = eventTemplates.resolve(body.eventName ?? event.eventName)
+    const data = buildTemplateData(event, payload)
+    const text = removeEmotes(replacer.replace(body.template ?? template.template, data))
+    return c.json({ eventName: template.eventName, platform: event.platform, enabled: template.enabled, template: body.template ?? template.template, text })
+  })
+
+  templates.get('/:eventName', (c) => {
+    const template = eventTemplates.get(c.req.param('eventName'))
+    if (!template) return c.json({ message: 'Template not found' }, 404)
+    return c.json(template)
+  })
+
+  // { template?, enabled? } — crea la plantilla si el evento no tenía
+  templates.put('/:eventName', async (c) => {
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch (e) {
+      return c.json({ error: 'Invalid JSON body' }, 400)
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return c.json({ error: 'Invalid JSON body' }, 400)
+    }
+    const result = eventTemplates.set(c.req.param('eventName'), { template: body.template, enabled: body.enabled })
+    if (!result.ok) return c.json({ error: 'Invalid template', details: result.errors }, 400)
+    return c.json(result.template)
+  })
+
+  templates.delete('/:eventName', (c) => {
+    if (!eventTemplates.remove(c.req.param('eventName'))) return c.json({ message: 'Template not found' }, 404)
+    return c.json({ ok: true })
+  })
+
+  return templates
+}
+
+export default createTemplateRoutes()
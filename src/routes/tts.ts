@@ -0,0 +1,194 @@
+import { Hono, type Context } from 'hono'
+import { ttsConfigManager } from '../services/ttsConfig'
+import { userVoiceManager } from '../services/userVoices'
+import { synthesizeAudio, streamAudio, getSupportedFormats, TTS_Config } from '../services/tts'
+import { textRewriter, localeFromVoice } from '../filters/rewriter'
+import { quickClean } from '../filters/spam-cleaner'
+import { playbackQueue } from '../services/playbackQueue'
+
+const tts = new Hono()
+
+interface AudioParams {
+  text?: string
+  voice?: string
+  user?: string
+  format?: string
+  stream?: string | boolean
+}
+
+/**
+ * Interpreta la cabecera Range (solo un rango de bytes).
+ * Devuelve undefined si no hay rango y null si no se puede satisfacer.
+ */
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | undefined {
+  if (!header) return undefined
+  const match = header.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+
+  let start: number
+  let end: number
+  if (!match[1]) {
+    // bytes=-500 => últimos 500 bytes
+    start = Math.max(size - parseInt(match[2], 10), 0)
+    end = size - 1
+  } else {
+    start = parseInt(match[1], 10)
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1
+  }
+  if (start > end || start >= size) return null
+  return { start, end }
+}
+
+async function handleAudio(c: Context, params: AudioParams) {
+  const cleaned = quickClean(params.text ?? '')
+  if (!cleaned.trim()) return c.json({ error: 'Text parameter is required' }, 400)
+
+  const formats = getSupportedFormats()
+  if (params.format && !formats.some(f => f.id === params.format)) {
+    return c.json({ error: `Unsupported format "${params.format}"`, supported: formats.map(f => f.id) }, 400)
+  }
+
+  const voice = params.voice || (params.user ? userVoiceManager.resolveVoice({ uniqueId: params.user }).voice : undefined)
+  const text = textRewriter.apply(cleaned, localeFromVoice(voice ?? TTS_Config.voice)).text
+  const streaming = params.stream === true || params.stream === 'true' || params.stream === '1'
+
+  try {
+    if (streaming) {
+      const { format, chunks } = await streamAudio(text, { voice, format: params.format })
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          try {
+            for await (const chunk of chunks) controller.enqueue(chunk)
+            controller.close()
+          } catch (e) {
+            controller.error(e)
+          }
+        },
+      })
+      return c.body(body, 200, {
+        'Content-Type': format.mimeType,
+        'Cache-Control': 'no-store',
+        'Accept-Ranges': 'none',
+      })
+    }
+
+    const { format, audio } = await synthesizeAudio(text, { voice, format: params.format })
+    const size = audio.byteLength
+    const range = parseRange(c.req.header('range'), size)
+    if (range === null) {
+      return c.body(null, 416, { 'Content-Range': `bytes */${size}` })
+    }
+
+    const headers = {
+      'Content-Type': format.mimeType,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'no-cache',
+    }
+    if (range) {
+      return c.body(audio.slice(range.start, range.end + 1), 206, {
+        ...headers,
+        'Content-Length': String(range.end - range.start + 1),
+        'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+      })
+    }
+    return c.body(audio.slice(), 200, { ...headers, 'Content-Length': String(size) })
+  } catch (e) {
+    return c.json({ error: 'Failed to process TTS request', details: String(e) }, 500)
+  }
+}
+
+// Audio binario: GET para textos cortos (apto para <audio src>), POST para textos largos
+tts.get('/audio', (c) => {
+  return handleAudio(c, c.req.query())
+})
+
+tts.post('/audio', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body?.text !== 'string') return c.json({ error: 'text is required' }, 400)
+  return handleAudio(c, { ...c.req.query(), ...body })
+})
+
+tts.get('/config', (c) => {
+  return c.json(ttsConfigManager.get())
+})
+
+tts.put('/config', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  const result = await ttsConfigManager.update(body)
+  if (!result.ok) return c.json({ error: 'Invalid TTS config', details: result.errors }, 400)
+  return c.json(result.config)
+})
+
+// Cola de reproducción del servidor (sin el audio)
+tts.get('/queue', (c) => {
+  return c.json(playbackQueue.list())
+})
+
+// Voces por usuario
+tts.get('/users', (c) => {
+  return c.json(userVoiceManager.list())
+})
+
+tts.get('/users/:user', (c) => {
+  const user = c.req.param('user')
+  const assignment = userVoiceManager.get(user)
+  return c.json({ assignment: assignment ?? null, resolved: userVoiceManager.resolveVoice({ uniqueId: user }) })
+})
+
+tts.put('/users/:user', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (typeof body?.voice !== 'string' || !body.voice.trim()) {
+    return c.json({ error: 'voice is required' }, 400)
+  }
+  const assignment = await userVoiceManager.set(c.req.param('user'), body.voice)
+  if (!assignment) return c.json({ error: `Unknown voice "${body.voice}"` }, 400)
+  return c.json(assignment)
+})
+
+tts.delete('/users/:user', async (c) => {
+  const ok = await userVoiceManager.remove(c.req.param('user'))
+  if (!ok) return c.json({ message: 'Assignment not found' }, 404)
+  return c.json({ ok: true })
+})
+
+tts.get('/auto-assign', (c) => {
+  return c.json(userVoiceManager.getAutoAssign())
+})
+
+tts.put('/auto-assign', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch (e) {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (body?.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return c.json({ error: 'enabled must be a boolean' }, 400)
+  }
+  if (body?.pool !== undefined && (!Array.isArray(body.pool) || body.pool.some((v: unknown) => typeof v !== 'string'))) {
+    return c.json({ error: 'pool must be an array of voice names' }, 400)
+  }
+  const unknown = await userVoiceManager.setAutoAssign({ enabled: body.enabled, pool: body.pool })
+  if (unknown.length > 0) return c.json({ error: 'Unknown voices in pool', details: unknown }, 400)
+  return c.json(userVoiceManager.getAutoAssign())
+})
+
+export default tts
@@ -0,0 +1,25 @@
+import { Hono } from 'hono'
+import { voiceCatalog } from '../services/voiceCatalog'
+
+const voices = new Hono()
+
+// GET /api/voices?locale=es&gender=Female&personality=Friendly&prefix=es-MX&refresh=true
+voices.get('/', async (c) => {
+  const refreshParam = c.req.query('refresh')
+  if (refreshParam === 'true' || refreshParam === '1') {
+    try {
+      await voiceCatalog.refresh()
+    } catch (e) {
+      return c.json({ error: 'Failed to refresh voices', details: String(e) }, 502)
+    }
+  }
+  const data = await voiceCatalog.search({
+    locale: c.req.query('locale'),
+    gender: c.req.query('gender'),
+    personality: c.req.query('personality'),
+    prefix: c.req.query('prefix'),
+  })
+  return c.json(data)
+})
+
+export default voices
@@ -1,30 +1,7 @@
 import { DataStorage } from 'json-obj-manager';
 import { JSONFileAdapter } from 'json-obj-manager/node';
 import path from 'path';
-
-// Define user identifier types
-type UserIdentifier = {
-    id: string;
-    uniqueId: string;
-}
-
-// Define user display types
-type UserDisplay = {
-    nickname: string;
-    displayName: string;
-    username: string;
-}
-
-// Define message content types
-type MessageContent = {
-    comment: string;
-    content: string;
-    message: string;
-    msg: string;
-}
-
-// Define your data type
-interface Messages extends Partial<UserIdentifier>, Partial<UserDisplay>, Partial<MessageContent> {}
+import type { Messages } from '../events/chatEvent';
 
 // Create storage with type safety
 const messageStorage = new DataStorage<Messages>(
@@ -0,0 +1,200 @@
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+import path from "path";
+import { displayNameOf, type ChatEvent } from '../events/chatEvent';
+import { ConfigurableReplacer, TEMPLATE_SYNTAX_VERSION, type ReplacementData } from '../controllers/ConfigurableReplacer';
+
+const tempPath = path.join(process.cwd(),'temp')
+
+// Plantilla que se lee para un tipo de evento del webhook (chat, gift, follow...)
+export interface EventTemplate {
+  eventName: string;
+  template: string;
+  enabled: boolean;
+  syntaxVersion: number; // Ver TEMPLATE_SYNTAX_VERSION; las guardadas sin versión usan patrones sueltos
+  updatedAt: Date;
+}
+
+export type EventTemplateUpdate = Partial<Pick<EventTemplate, 'template' | 'enabled'>>;
+
+// Evento que se usa cuando el webhook no trae eventName o no hay plantilla para él
+export const DEFAULT_EVENT = 'chat';
+
+// Placeholders de ConfigurableReplacer: {user}, {msg}, {giftName}, {gift.name}, {msg|upper}...
+const DEFAULT_TEMPLATES: Record<string, { template: string; enabled: boolean }> = {
+  chat: { template: '{user} {msg}', enabled: true },
+  gift: { template: '{user} envió {repeatCount|default:"un"} {giftName}', enabled: true },
+  follow: { template: '{user} te sigue', enabled: true },
+  subscribe: { template: '{user} se suscribió', enabled: true },
+  share: { template: '{user} compartió el directo', enabled: false },
+  like: { template: '{user} envió {likecount} me gusta', enabled: false },
+  member: { template: '{user} se unió', enabled: false },
+  // Eventos que antes se ignoraban siempre (NoteventNames)
+  join: { template: '{user} se unió', enabled: false },
+  leave: { template: '{user} salió', enabled: false },
+  server: { template: '{msg}', enabled: false },
+  unknown: { template: '{user} {msg}', enabled: false },
+};
+
+// Solo para migrar plantillas con los patrones por defecto
+const legacyReplacer = new ConfigurableReplacer();
+
+const dataStorage = new DataStorage<Record<string, EventTemplate>>(new JSONFile(path.join(tempPath,'data/event-templates.json')));
+
+/**
+ * Normaliza el nombre de evento ('Gift ' => 'gift')
+ */
+export function normalizeEventName(eventName?: unknown): string {
+  return typeof eventName === 'string' && eventName.trim() ? eventName.trim().toLowerCase() : DEFAULT_EVENT;
+}
+
+/**
+ * Datos para la plantilla: los campos del cuerpo original del webhook (y de body.data,
+ * donde suelen venir los datos del evento) más los del evento normalizado:
+ * user, msg, platform, badges, amount, likes y, si el cuerpo no los trae,
+ * gift/giftName/repeatCount, para que las plantillas sirvan en cualquier plataforma.
+ * Los objetos anidados se mantienen para las rutas con puntos ({gift.name}).
+ */
+export function buildTemplateData(event: ChatEvent, body?: unknown): ReplacementData {
+  const data: ReplacementData = {};
+  const copyFields = (source: unknown) => {
+    if (typeof source !== 'object' || source === null || Array.isArray(source)) return;
+    for (const [key, value] of Object.entries(source)) {
+      if (typeof value !== 'function') data[key] = value;
+    }
+  };
+  const raw = body as Record<string, unknown> | undefined;
+  copyFields(raw);
+  copyFields(raw?.data);
+  // body.data no se pisa con sus propios campos
+  if (raw?.data !== undefined) data.data = raw.data;
+
+  data.platform = event.platform;
+  data.type = event.type;
+  data.badges = event.user.badges;
+  if (event.amount) data.amount ??= event.amount;
+  if (event.type === 'gift') {
+    data.gift ??= event.gift;
+    data.giftName ??= event.gift.name;
+    data.repeatCount ??= event.gift.count;
+  }
+  if (event.type === 'like') data.likes ??= event.likes;
+  // Sin nombre o texto en el evento se usan los campos user/msg del cuerpo, si son texto
+  data.user = displayNameOf(event.user) ?? (typeof data.user === 'string' ? data.user : '');
+  data.msg = event.text ?? (typeof data.msg === 'string' ? data.msg : '');
+  return data;
+}
+
+/**
+ * Plantillas por tipo de evento, guardadas en temp/data/event-templates.json
+ */
+export class EventTemplateManager {
+  private templates: Record<string, EventTemplate> = {};
+  readonly ready: Promise<void>;
+
+  // storage: por defecto temp/data/event-templates.json
+  constructor(private storage = dataStorage) {
+    this.templates = this.defaults();
+    this.ready = this.loadBackup();
+  }
+
+  list(): EventTemplate[] {
+    return Object.values(this.templates);
+  }
+
+  get(eventName: string): EventTemplate | undefined {
+    return this.templates[normalizeEventName(eventName)];
+  }
+
+  /**
+   * Plantilla para un evento: la suya o, si no tiene, la del chat
+   */
+  resolve(eventName?: unknown): EventTemplate {
+    const name = normalizeEventName(eventName);
+    return this.templates[name] ?? this.templates[DEFAULT_EVENT] ?? {
+      eventName: DEFAULT_EVENT,
+      ...DEFAULT_TEMPLATES[DEFAULT_EVENT],
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Crea o modifica la plantilla de un evento
+   * @returns La plantilla o la lista de errores
+   */
+  set(eventName: string, update: EventTemplateUpdate): { ok: true; template: EventTemplate } | { ok: false; errors: string[] } {
+    const errors: string[] = [];
+    if (update.template !== undefined && (typeof update.template !== 'string' || !update.template.trim())) {
+      errors.push('template must be a non-empty string');
+    }
+    if (update.enabled !== undefined && typeof update.enabled !== 'boolean') errors.push('enabled must be a boolean');
+
+    const name = normalizeEventName(eventName);
+    const existing = this.templates[name];
+    if (!existing && update.template === undefined) errors.push('template is required for new events');
+    if (errors.length > 0) return { ok: false, errors };
+
+    const template: EventTemplate = {
+      eventName: name,
+      template: update.template ?? existing!.template,
+      enabled: update.enabled ?? existing?.enabled ?? true,
+      syntaxVersion: update.template === undefined ? existing!.syntaxVersion : TEMPLATE_SYNTAX_VERSION,
+      updatedAt: new Date(),
+    };
+    this.templates[name] = template;
+    this.saveData();
+    return { ok: true, template };
+  }
+
+  /**
+   * Elimina la plantilla de un evento. Las de por defecto vuelven a su valor inicial.
+   */
+  remove(eventName: string): boolean {
+    const name = normalizeEventName(eventName);
+    if (!this.templates[name]) return false;
+    const defaults = this.defaults();
+    if (defaults[name]) this.templates[name] = defaults[name];
+    else delete this.templates[name];
+    this.saveData();
+    return true;
+  }
+
+  private defaults(): Record<string, EventTemplate> {
+    const now = new Date();
+    return Object.fromEntries(
+      Object.entries(DEFAULT_TEMPLATES).map(([eventName, value]) => [eventName, { eventName, ...value, syntaxVersion: TEMPLATE_SYNTAX_VERSION, updatedAt: now }])
+    );
+  }
+
+  private saveData(): void {
+    this.storage.save('data', this.templates)
+      .catch((error: unknown) => console.error('Error saving event templates:', error));
+  }
+
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await this.storage.load('data');
+      if (data) {
+        // Las plantillas nuevas por defecto se añaden a las guardadas
+        this.templates = { ...this.defaults(), ...this.templates };
+        let migrated = false;
+        for (const [eventName, template] of Object.entries<EventTemplate>(data)) {
+          const loaded = { ...template, eventName, updatedAt: new Date(template.updatedAt) };
+          // Plantillas guardadas con la sintaxis antigua: "user msg" => "{user} {msg}"
+          if ((loaded.syntaxVersion ?? 1) < TEMPLATE_SYNTAX_VERSION) {
+            loaded.template = legacyReplacer.migrateLegacyTemplate(loaded.template);
+            loaded.syntaxVersion = TEMPLATE_SYNTAX_VERSION;
+            migrated = true;
+          }
+          this.templates[eventName] = loaded;
+        }
+        if (migrated) this.saveData();
+      }
+    } catch (error) {
+      console.error('Error loading event templates backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const eventTemplates = new EventTemplateManager();
@@ -1,52 +1,170 @@
 import { DataStorage } from "json-obj-manager";
 import { JSONFile } from "json-obj-manager/node";
 import path from "path";
+import { toMessageFields, type ChatEvent, type Messages } from "../events/chatEvent";
+import { emitter } from "../Emitter";
+import type { CheckResult } from "../filters/filters";
 const tempPath = path.join(process.cwd(),'temp')
 
-// Define user identifier types
-export type UserIdentifier = {
-  id: string;
-};
+// Los campos planos de usuario y mensaje se definen junto a ChatEvent
+export type { UserIdentifier, UserDisplay, MessageContent, Messages } from '../events/chatEvent';
 
-// Define user display types
-export type UserDisplay = {
-    nickname: string;
-    displayName: string;
-    displayname: string;
-    username: string;
-    uniqueId: string;
-    uniqueid: string;
-};
+// Prioridades de menor a mayor
+export const MESSAGE_PRIORITIES = ['chat', 'subscriber', 'moderator', 'donation', 'system'] as const;
+export type MessagePriority = typeof MESSAGE_PRIORITIES[number];
 
-// Define message content types
-export type MessageContent = {
-  comment: string;
-  content: string;
-  message: string;
-  msg: string;
-  text: string;
+// Qué mensaje se descarta cuando la cola está llena (después de los ya leídos)
+export const OVERFLOW_POLICIES = ['drop-oldest', 'drop-newest', 'drop-lowest-priority'] as const;
+export type OverflowPolicy = typeof OVERFLOW_POLICIES[number];
+
+export interface MessageQueueConfig {
+  maxSize: number;           // Mensajes en la cola, leídos o no (0 = sin límite)
+  unreadTtlSeconds: number;  // Los no leídos más antiguos caducan (0 = no caducan)
+  overflowPolicy: OverflowPolicy;
+  maxReadMessages: number;   // Leídos que se conservan; se eliminan los más antiguos
+  agingSeconds: number;      // Cada cuántos segundos de espera sube un nivel la prioridad efectiva (0 = nunca)
+  approvalMode: boolean;     // Los mensajes del webhook esperan como 'pending' a que un moderador los apruebe
+  autoApproveAllowListed: boolean; // En modo aprobación, los usuarios de la allowList no esperan
+}
+
+export const DEFAULT_AGING_SECONDS = 30;
+
+export const DEFAULT_QUEUE_CONFIG: MessageQueueConfig = {
+  maxSize: 500,
+  unreadTtlSeconds: 600,
+  overflowPolicy: 'drop-oldest',
+  maxReadMessages: 100,
+  agingSeconds: DEFAULT_AGING_SECONDS,
+  approvalMode: false,
+  autoApproveAllowListed: true,
 };
 
-// Define your data type
-export interface Messages extends Partial<UserIdentifier>, Partial<UserDisplay>, Partial<MessageContent> {}
+// overflow: cola llena; expired: sin leer demasiado tiempo; pruned: leído y fuera de maxReadMessages;
+// rejected: un moderador no lo aprobó
+export type EvictionReason = 'overflow' | 'expired' | 'pruned' | 'rejected';
+
+// pending: esperando a un moderador (no se lee); approved: aprobado en modo aprobación
+export type MessageStatus = 'pending' | 'approved';
+
+// claimed: la reproducción lo ha sacado y está sonando o por sonar; done: ya sonó o se saltó
+export type PlaybackProgress = 'claimed' | 'done';
 
-// src/tools/messageQueue.ts
-// Cola de mensajes para un MCP (usada internamente por characterTools.ts)
+// Veces que la reproducción intenta un mensaje que no llega a sonar antes de darlo por terminado
+export const MAX_PLAYBACK_ATTEMPTS = 3;
+
+export interface MessageEvictedEvent {
+  id: string;
+  reason: EvictionReason;
+  policy?: OverflowPolicy;
+  message: Message;
+}
+
+export function isMessagePriority(value: unknown): value is MessagePriority {
+  return typeof value === 'string' && (MESSAGE_PRIORITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Prioridad de un evento del chat: eventos de sistema, luego regalos y pagos,
+ * moderadores, suscriptores y el resto
+ */
+export function priorityFromEvent(event: ChatEvent): MessagePriority {
+  if (event.type === 'system') return 'system';
+  if (event.type === 'gift' || event.amount) return 'donation';
+  const badges = event.user.badges.map(badge => badge.toLowerCase());
+  if (badges.some(badge => badge === 'moderator' || badge === 'broadcaster')) return 'moderator';
+  if (event.type === 'subscribe' || badges.some(badge => badge === 'subscriber' || badge === 'member')) return 'subscriber';
+  return 'chat';
+}
 
 export interface Message extends  Messages{
   id: string;               // UUID v4
   isRead: boolean;          // Estado de lectura
   createdAt: Date;          // Momento de creación
   readAt?: Date;            // Momento en que se marcó como leído (opcional)
+  event?: ChatEvent;        // Evento completo si el mensaje viene de un ChatEvent
+  eventName?: string;       // Evento de origen (chat, gift, follow...)
+  filter?: CheckResult;     // Resultado de los filtros de texto con el que se aceptó
+  priority?: MessagePriority; // 'chat' si no se indica
+  pinned?: number;          // Orden fijado con move(); los fijados se leen antes que el resto
+  held?: boolean;           // Retenido hasta que un moderador lo libere
+  heldAt?: Date;
+  editedAt?: Date;          // Última vez que se editó el texto
+  status?: MessageStatus;   // Sin status: no necesita aprobación
+  reviewedAt?: Date;        // Momento en que se aprobó o rechazó
+  rejectReason?: string;
+  spoken?: string;          // Texto reescrito que se lee (se borra al editar el texto)
+  voice?: string;
+  userKey?: string;
+  playback?: PlaybackProgress; // Progreso en la reproducción, independiente de isRead (GET /messages/next)
+  playbackAttempts?: number;
+  playedAt?: Date;
 }
+
+// Cambios que se pueden hacer a un mensaje ya en la cola
+export interface MessageEdit {
+  text?: string;
+  priority?: MessagePriority;
+}
+
+// Campos de texto que se reescriben al editar (los que el mensaje ya tenga y text)
+const TEXT_FIELDS = ['comment', 'content', 'message', 'msg', 'text'] as const;
+
+export type MessageQueueOptions = Partial<MessageQueueConfig>;
+
 const dataStorage = new DataStorage<Message[]>(new JSONFile(path.join(tempPath,'data/messages.json')));
+const configStorage = new DataStorage<MessageQueueConfig>(new JSONFile(path.join(tempPath,'data/message-queue.json')));
+
+// Un error al guardar solo se registra: la cola sigue funcionando en memoria
+function saveMessages(messages: readonly Message[]): void {
+  dataStorage.save('data', messages as Message[]).catch((error: unknown) => console.error('Error saving message queue:', error));
+}
 
 /**
- * Clase simple y liviana para gestionar una cola de mensajes FIFO
- * (First-In-First-Out). Los mensajes se pueden añadir y marcar como leídos.
+ * Cola de mensajes con prioridades. Dentro de una misma prioridad se respeta
+ * el orden de llegada (FIFO) y los mensajes que esperan suben de prioridad
+ * con el tiempo para que el chat normal no se quede sin leer.
+ * La cola tiene tamaño máximo, los no leídos caducan y los leídos se van
+ * eliminando; cada mensaje eliminado se emite como 'message-evicted'.
+ * Los mensajes 'pending' no se leen hasta que se aprueban.
  */
 export class MessageQueue {
   private queue: Message[] = [];
+  private config: MessageQueueConfig;
+
+  constructor(options: MessageQueueOptions = {}) {
+    this.config = { ...DEFAULT_QUEUE_CONFIG, ...options };
+  }
+
+  getConfig(): MessageQueueConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Cambia la configuración y la aplica a los mensajes que ya hay
+   * @returns Lista de errores (vacía si se aplicó)
+   */
+  updateConfig(update: Partial<MessageQueueConfig>): string[] {
+    const next: MessageQueueConfig = { ...this.config, ...update };
+    const errors: string[] = [];
+    for (const field of ['maxSize', 'unreadTtlSeconds', 'maxReadMessages', 'agingSeconds'] as const) {
+      const value = next[field];
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) errors.push(`${field} must be a non-negative integer`);
+    }
+    if (!OVERFLOW_POLICIES.includes(next.overflowPolicy)) errors.push(`overflowPolicy must be one of ${OVERFLOW_POLICIES.join(', ')}`);
+    for (const field of ['approvalMode', 'autoApproveAllowListed'] as const) {
+      if (typeof next[field] !== 'boolean') errors.push(`${field} must be a boolean`);
+    }
+    if (errors.length > 0) return errors;
+
+    // Al desactivar el modo aprobación los pendientes se aprueban: nadie los va a revisar
+    if (this.config.approvalMode && !next.approvalMode) this.pending().forEach(msg => this.markApproved(msg));
+    this.config = next;
+    configStorage.save('data', this.config).catch((error: unknown) => console.error('Error saving message queue config:', error));
+    this.cleanup();
+    this.enforceCapacity();
+    saveMessages(this.queue);
+    return [];
+  }
 
   /**
    * Añade un nuevo mensaje a la cola.
@@ -58,20 +176,139 @@ export class MessageQueue {
       id: crypto.randomUUID(),
       isRead: false,
       createdAt: new Date(),
+      priority: isMessagePriority(message?.priority) ? message.priority : 'chat',
     };
     this.queue.push(newMessage);
-    dataStorage.save('data',this.queue)
+    this.cleanup();
+    this.enforceCapacity(newMessage);
+    saveMessages(this.queue);
+    if (newMessage.status === 'pending' && this.queue.includes(newMessage)) emitter.emit('pending', newMessage);
     return newMessage;
   }
+
+  get(id: string): Message | undefined {
+    return this.queue.find(m => m.id === id);
+  }
+  /**
+   * Añade un evento del chat con sus campos planos (uniqueId, nickname, text...)
+   * para los clientes que leen /messages
+   * @param fields Campos que sustituyen a los del evento (ej. el texto ya limpio)
+   * @param priority Sin indicar se calcula con priorityFromEvent
+   */
+  addEvent(event: ChatEvent, fields: Partial<Message> = {}, priority: MessagePriority = priorityFromEvent(event)): Message {
+    return this.add({ ...toMessageFields(event), eventName: event.eventName, ...fields, event, priority } as Message);
+  }
+
+  /**
+   * Prioridad efectiva de un mensaje: su nivel más uno por cada agingSeconds de espera
+   */
+  effectivePriority(message: Message, now = Date.now()): number {
+    const level = MESSAGE_PRIORITIES.indexOf(message.priority ?? 'chat');
+    const { agingSeconds } = this.config;
+    if (agingSeconds <= 0) return level;
+    const waited = (now - new Date(message.createdAt).getTime()) / 1000;
+    return level + Math.max(0, Math.floor(waited / agingSeconds));
+  }
+
+  /**
+   * Mensajes sin leer y no retenidos en el orden en que se leerán: primero los
+   * fijados con move() y después por prioridad efectiva y orden de llegada
+   */
+  readingOrder(now = Date.now()): Message[] {
+    return this.sortForReading(this.queue.filter(m => !m.isRead && !m.held && m.status !== 'pending'), now);
+  }
+
+  /**
+   * Mensajes que esperan a la reproducción, en el mismo orden que readingOrder.
+   * No depende de isRead: leerlos con GET /messages/next no los quita de aquí.
+   * Los que llevan más de unreadTtlSeconds esperando ya no se reproducen.
+   */
+  playbackOrder(now = Date.now()): Message[] {
+    const { unreadTtlSeconds } = this.config;
+    const limit = unreadTtlSeconds > 0 ? now - unreadTtlSeconds * 1000 : -Infinity;
+    return this.sortForReading(this.queue.filter(m =>
+      !m.playback && !m.held && m.status !== 'pending' && new Date(m.createdAt).getTime() >= limit
+    ), now);
+  }
+
+  // Primero los fijados con move() y después por prioridad efectiva y orden de llegada
+  private sortForReading(pending: Message[], now: number): Message[] {
+    const pinned = pending.filter(m => m.pinned !== undefined).sort((a, b) => a.pinned! - b.pinned!);
+    const rest = pending
+      .filter(m => m.pinned === undefined)
+      .map(message => ({ message, score: this.effectivePriority(message, now) }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ message }) => message);
+    return [...pinned, ...rest];
+  }
+
+  /**
+   * Siguiente mensaje que se leerá (ver readingOrder)
+   */
+  peekNextUnread(now = Date.now()): Message | undefined {
+    return this.readingOrder(now)[0];
+  }
+
   getNextUnread(isRed = true): Message | undefined {
-    const msg = this.queue.find(m => !m.isRead);
+    this.cleanup();
+    const msg = this.peekNextUnread();
     if (msg) {  
       msg.isRead = isRed;
       msg.readAt = new Date();
     }
-    dataStorage.save('data',this.queue)
+    this.pruneRead();
+    saveMessages(this.queue);
+    return msg;
+  }
+
+  /**
+   * Saca el siguiente mensaje de playbackOrder para la reproducción (queda 'claimed').
+   * No lo marca como leído.
+   */
+  claimForPlayback(now = Date.now()): Message | undefined {
+    const msg = this.playbackOrder(now)[0];
+    if (!msg) return undefined;
+    msg.playback = 'claimed';
+    msg.playbackAttempts = (msg.playbackAttempts ?? 0) + 1;
+    saveMessages(this.queue);
     return msg;
   }
+
+  /**
+   * Termina la reproducción de un mensaje sacado con claimForPlayback().
+   * Si no llegó a sonar (sin overlays, cola llena o error al sintetizar) vuelve a
+   * esperar en su sitio, salvo que ya se haya intentado MAX_PLAYBACK_ATTEMPTS veces.
+   * @param finished Sonó o alguien lo saltó
+   * @returns false si el mensaje no existe o no estaba sacado
+   */
+  settlePlayback(id: string, finished: boolean): boolean {
+    const msg = this.get(id);
+    if (!msg || msg.playback !== 'claimed') return false;
+    if (finished || (msg.playbackAttempts ?? 0) >= MAX_PLAYBACK_ATTEMPTS) {
+      msg.playback = 'done';
+      msg.playedAt = new Date();
+    } else {
+      delete msg.playback;
+    }
+    saveMessages(this.queue);
+    return true;
+  }
+
+  /**
+   * Da por reproducidos todos los que esperan a la reproducción (no cambia isRead)
+   * @returns Cantidad de mensajes saltados
+   */
+  skipPlayback(): number {
+    const waiting = this.playbackOrder();
+    const now = new Date();
+    waiting.forEach(msg => {
+      msg.playback = 'done';
+      msg.playedAt = now;
+    });
+    saveMessages(this.queue);
+    return waiting.length;
+  }
+
   /**
    * Marca un mensaje específico como leído.
    * @param id UUID del mensaje a marcar
@@ -83,7 +320,8 @@ export class MessageQueue {
 
     msg.isRead = true;
     msg.readAt = new Date();
-    dataStorage.save('data',this.queue)
+    this.pruneRead();
+    saveMessages(this.queue);
     return true;
   }
 
@@ -100,10 +338,212 @@ export class MessageQueue {
         count++;
       }
     });
-    dataStorage.save('data',this.queue)
+    this.pruneRead();
+    saveMessages(this.queue);
     return count;
   }
 
+  /**
+   * Elimina un mensaje de la cola
+   * @returns false si no existe
+   */
+  remove(id: string): boolean {
+    const index = this.queue.findIndex(m => m.id === id);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    saveMessages(this.queue);
+    return true;
+  }
+
+  /**
+   * Edita el texto (antes de que se lea) o la prioridad de un mensaje
+   * @returns El mensaje editado o undefined si no existe
+   */
+  update(id: string, changes: MessageEdit): Message | undefined {
+    const msg = this.get(id);
+    if (!msg) return undefined;
+    if (changes.text !== undefined) {
+      for (const field of TEXT_FIELDS) {
+        if (msg[field] !== undefined) msg[field] = changes.text;
+      }
+      msg.text = changes.text;
+      // El texto reescrito ya no corresponde: se vuelve a reescribir al leerlo
+      delete msg.spoken;
+      msg.editedAt = new Date();
+    }
+    if (changes.priority !== undefined) msg.priority = changes.priority;
+    saveMessages(this.queue);
+    return msg;
+  }
+
+  /**
+   * Mueve un mensaje sin leer a una posición de readingOrder (0 o 'top' = el siguiente).
+   * Los que quedan delante se fijan para que conserven su orden.
+   * @returns La posición final o undefined si el mensaje no existe, ya se leyó o está retenido
+   */
+  move(id: string, position: number | 'top'): number | undefined {
+    const msg = this.get(id);
+    if (!msg || msg.isRead || msg.held) return undefined;
+    const order = this.readingOrder().filter(m => m !== msg);
+    const index = position === 'top' ? 0 : Math.min(Math.max(0, Math.floor(position)), order.length);
+    const pinned = [...order.slice(0, index), msg, ...order.slice(index).filter(m => m.pinned !== undefined)];
+    pinned.forEach((message, i) => { message.pinned = i; });
+    saveMessages(this.queue);
+    return index;
+  }
+
+  /**
+   * Vuelve a poner un mensaje como no leído al final de la cola (para repetirlo)
+   * @returns El mensaje o undefined si no existe
+   */
+  requeue(id: string): Message | undefined {
+    const index = this.queue.findIndex(m => m.id === id);
+    if (index === -1) return undefined;
+    const [msg] = this.queue.splice(index, 1);
+    msg.isRead = false;
+    msg.createdAt = new Date();
+    delete msg.readAt;
+    delete msg.pinned;
+    delete msg.playback;
+    delete msg.playbackAttempts;
+    delete msg.playedAt;
+    this.queue.push(msg);
+    saveMessages(this.queue);
+    return msg;
+  }
+
+  /**
+   * Retiene un mensaje: no se lee ni caduca hasta que se libere con release()
+   */
+  hold(id: string): Message | undefined {
+    const msg = this.get(id);
+    if (!msg) return undefined;
+    msg.held = true;
+    msg.heldAt = new Date();
+    saveMessages(this.queue);
+    return msg;
+  }
+
+  release(id: string): Message | undefined {
+    const msg = this.get(id);
+    if (!msg) return undefined;
+    delete msg.held;
+    delete msg.heldAt;
+    saveMessages(this.queue);
+    return msg;
+  }
+
+  /**
+   * Mensajes que esperan a un moderador
+   */
+  pending(): Message[] {
+    return this.queue.filter(m => m.status === 'pending');
+  }
+
+  /**
+   * Aprueba un mensaje pendiente; a partir de ahí se lee como los demás
+   * @returns El mensaje o undefined si no existe o no está pendiente
+   */
+  approve(id: string): Message | undefined {
+    const msg = this.get(id);
+    if (!msg || msg.status !== 'pending') return undefined;
+    this.markApproved(msg);
+    saveMessages(this.queue);
+    return msg;
+  }
+
+  private markApproved(msg: Message): void {
+    msg.status = 'approved';
+    msg.reviewedAt = new Date();
+  }
+
+  /**
+   * Rechaza un mensaje pendiente y lo saca de la cola (se emite como 'message-evicted')
+   * @returns El mensaje o undefined si no existe o no está pendiente
+   */
+  reject(id: string, reason?: string): Message | undefined {
+    const msg = this.get(id);
+    if (!msg || msg.status !== 'pending') return undefined;
+    msg.reviewedAt = new Date();
+    if (reason) msg.rejectReason = reason;
+    this.evict(msg, 'rejected');
+    saveMessages(this.queue);
+    return msg;
+  }
+
+  /**
+   * Elimina los no leídos caducados y los leídos que sobran
+   * @returns Cantidad de mensajes eliminados
+   */
+  cleanup(now = Date.now()): number {
+    const before = this.queue.length;
+    const { unreadTtlSeconds } = this.config;
+    if (unreadTtlSeconds > 0) {
+      const limit = now - unreadTtlSeconds * 1000;
+      this.queue
+        .filter(m => !m.isRead && !m.held && m.status !== 'pending' && new Date(m.createdAt).getTime() < limit)
+        .forEach(m => this.evict(m, 'expired'));
+    }
+    this.pruneRead();
+    return before - this.queue.length;
+  }
+
+  // Deja como mucho maxReadMessages leídos (se eliminan los leídos hace más tiempo)
+  private pruneRead(): void {
+    const read = this.queue.filter(m => m.isRead);
+    const excess = read.length - this.config.maxReadMessages;
+    if (excess <= 0) return;
+    read
+      .sort((a, b) => new Date(a.readAt ?? a.createdAt).getTime() - new Date(b.readAt ?? b.createdAt).getTime())
+      .slice(0, excess)
+      .forEach(m => this.evict(m, 'pruned'));
+  }
+
+  /**
+   * Con la cola llena se eliminan primero los leídos y después
+   * los no leídos según overflowPolicy
+   * @param incoming Mensaje que se acaba de añadir (el que descarta drop-newest)
+   */
+  private enforceCapacity(incoming?: Message): void {
+    const { maxSize, overflowPolicy } = this.config;
+    if (maxSize <= 0) return;
+    while (this.queue.length > maxSize) {
+      const read = this.queue.find(m => m.isRead);
+      if (read) {
+        this.evict(read, 'pruned');
+        continue;
+      }
+      this.evict(this.overflowVictim(overflowPolicy, incoming), 'overflow', overflowPolicy);
+    }
+  }
+
+  private overflowVictim(policy: OverflowPolicy, incoming?: Message): Message {
+    switch (policy) {
+      case 'drop-newest':
+        return incoming && this.queue.includes(incoming) ? incoming : this.queue[this.queue.length - 1];
+      case 'drop-lowest-priority': {
+        // A igual prioridad efectiva se descarta el más reciente
+        const now = Date.now();
+        let victim = this.queue[0];
+        for (const message of this.queue) {
+          if (this.effectivePriority(message, now) <= this.effectivePriority(victim, now)) victim = message;
+        }
+        return victim;
+      }
+      case 'drop-oldest':
+      default:
+        return this.queue[0];
+    }
+  }
+
+  private evict(message: Message, reason: EvictionReason, policy?: OverflowPolicy): void {
+    const index = this.queue.indexOf(message);
+    if (index === -1) return;
+    this.queue.splice(index, 1);
+    const evicted: MessageEvictedEvent = { id: message.id, reason, message, ...(policy && { policy }) };
+    emitter.emit('message-evicted', evicted);
+  }
+
   /**
    * Devuelve una copia superficial (shallow copy) del array interno.
    * Útil para lecturas sin mutar la cola.
@@ -113,10 +553,10 @@ export class MessageQueue {
   }
 
   /**
-   * Devuelve solo los mensajes no leídos.
+   * Devuelve solo los mensajes no leídos (sin los pendientes de aprobación).
    */
   unread(): readonly Message[] {
-    return this.queue.filter(m => !m.isRead);
+    return this.queue.filter(m => !m.isRead && m.status !== 'pending');
   }
 
   /**
@@ -130,7 +570,7 @@ export class MessageQueue {
    * Devuelve la cantidad de mensajes no leídos.
    */
   unreadSize(): number {
-    return this.queue.filter(m => !m.isRead).length;
+    return this.unread().length;
   }
 
   /**
@@ -138,7 +578,7 @@ export class MessageQueue {
    */
   clear(): void {
     this.queue.length = 0;
-    dataStorage.save('data',[])
+    saveMessages([]);
   }
   getAll(isRead?: boolean): Message[] {
     if (typeof isRead === 'boolean'){
@@ -148,14 +588,33 @@ export class MessageQueue {
     }
   }
   async loadBackup(){
-    const data = await dataStorage.load('data')
-    if (data){
-      this.queue = data
+    try {
+      // Las dos lecturas empiezan ya: un add() posterior no debe guardar antes de leer
+      const [config, data] = await Promise.all([configStorage.load('data'), dataStorage.load('data')])
+      if (config){
+        this.config = { ...this.config, ...config }
+      }
+      if (data){
+        // Los mensajes guardados antes de las prioridades entran como chat; los que
+        // estaban sonando al cerrar vuelven a esperar a la reproducción
+        const saved: Message[] = data.map((m: Message) => ({
+          ...m,
+          priority: isMessagePriority(m.priority) ? m.priority : 'chat',
+          playback: m.playback === 'claimed' ? undefined : m.playback,
+        }))
+        // Los que llegaron mientras se cargaba el backup van detrás
+        const savedIds = new Set(saved.map(m => m.id))
+        this.queue = [...saved, ...this.queue.filter(m => !savedIds.has(m.id))]
+      }
+    } catch (error) {
+      console.error('Error loading message queue backup:', error)
     }
   }
 }
-// Instancia singleton para ser importada en characterTools.ts
+// Instancia compartida por el webhook, las rutas /messages y la reproducción
 export const messageQueue = new MessageQueue();
+// Se resuelve cuando se ha cargado la cola guardada en temp/data
+export const messageQueueReady = messageQueue.loadBackup();
 export function markAsRead(id?:string| string[]){
   if (!id) return;
   if (Array.isArray(id)){
@@ -164,4 +623,8 @@ export function markAsRead(id?:string| string[]){
     messageQueue.markAsRead(id)
   }
 }
-messageQueue.loadBackup();
\ No newline at end of file
+// Caducidad de los no leídos aunque no entren mensajes nuevos
+// (unref: el temporizador no mantiene vivo el proceso, por ejemplo en los tests)
+setInterval(() => {
+  if (messageQueue.cleanup() > 0) saveMessages(messageQueue.snapshot())
+}, 30 * 1000).unref();
\ No newline at end of file
@@ -0,0 +1,354 @@
+import { emitter } from '../Emitter';
+import { synthesizeAudio } from './tts';
+
+export type PlaybackStatus = 'synthesizing' | 'queued' | 'playing' | 'played' | 'skipped' | 'failed';
+
+export interface PlaybackItem {
+  id: string;
+  text: string;
+  user?: string;
+  userKey?: string;    // Clave normalizada del usuario (ver getUserKey)
+  messageId?: string;  // Mensaje de la cola de mensajes del que sale
+  voice: string;
+  status: PlaybackStatus;
+  audio?: string;      // Audio en base64
+  mimeType?: string;
+  durationMs?: number;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+// Frame que se envía a los overlays por el WebSocket
+export interface AudioFrame {
+  type: 'audio';
+  id: string;
+  text: string;
+  user?: string;
+  voice: string;
+  audio: string;
+  mimeType?: string;
+}
+
+export type PlaybackAck = 'played' | 'skip';
+
+// Estado que se publica en 'queue-update'
+export interface PlaybackState {
+  paused: boolean;
+  current: string | null;
+  items: Omit<PlaybackItem, 'audio'>[];
+}
+
+export interface PlaybackEntry {
+  text: string;
+  user?: string;
+  userKey?: string;
+  messageId?: string;
+  voice: string;
+}
+
+// dropped: se saltó sin llegar a sonar (sin overlays o cola llena); failed: error al sintetizar
+export type PlaybackOutcome = 'played' | 'skipped' | 'dropped' | 'failed';
+
+export interface PlaybackSource {
+  // Saca el siguiente mensaje que hay que leer
+  next(): PlaybackEntry | undefined;
+  // Cómo terminó un elemento sacado con next() (para devolverlo a la fuente si no sonó)
+  settle?(messageId: string, outcome: PlaybackOutcome): void;
+}
+
+// Tiempo extra sobre la duración estimada antes de dar un audio por reproducido
+const ACK_GRACE_MS = 5000;
+const DEFAULT_DURATION_MS = 10000;
+const PENDING_STATUSES: PlaybackStatus[] = ['synthesizing', 'queued', 'playing'];
+// Audios que pueden esperar (sintetizándose o en cola) sin contar el que suena
+const DEFAULT_MAX_PENDING = 20;
+// Mensajes que se sacan de la fuente por adelantado para sintetizarlos mientras suena el actual
+const PREFETCH = 1;
+
+/**
+ * Cola de reproducción del servidor.
+ * Cada mensaje se sintetiza una sola vez y se envía a todos los overlays en orden,
+ * de uno en uno: el siguiente sale cuando un cliente confirma 'played' o 'skip'
+ * (o cuando vence el tiempo de espera).
+ * Sin overlays escuchando 'audio' no se sintetiza nada: los mensajes se saltan.
+ * Con setSource() la cola saca los mensajes de una fuente (la cola de mensajes)
+ * solo cuando los va a leer, así que lo que espera se puede seguir editando allí,
+ * y le avisa de cómo terminó cada uno.
+ */
+export class PlaybackQueue {
+  private items: PlaybackItem[] = [];
+  private current: PlaybackItem | null = null;
+  private synthesisChain: Promise<void> = Promise.resolve();
+  private ackTimer: ReturnType<typeof setTimeout> | null = null;
+  private paused = false;
+  private source: PlaybackSource | null = null;
+
+  constructor(private maxHistory = 50, private maxPending = DEFAULT_MAX_PENDING) {}
+
+  /**
+   * Fuente de la que se sacan los mensajes al quedar hueco (null para quitarla)
+   */
+  setSource(source: PlaybackSource | null): void {
+    this.source = source;
+    this.pump();
+  }
+
+  /**
+   * Hay algún overlay que reciba los audios
+   */
+  hasListeners(): boolean {
+    return emitter.listenerCount('audio') > 0;
+  }
+
+  /**
+   * Añade un texto a la cola. La síntesis se hace en orden de llegada.
+   * Sin nadie escuchando el elemento queda como 'skipped'; con la cola llena
+   * se saltan los más antiguos que aún no suenan.
+   */
+  enqueue(entry: PlaybackEntry): PlaybackItem {
+    const item: PlaybackItem = {
+      id: crypto.randomUUID(),
+      text: entry.text,
+      user: entry.user,
+      userKey: entry.userKey,
+      messageId: entry.messageId,
+      voice: entry.voice,
+      status: 'synthesizing',
+      createdAt: new Date(),
+    };
+    this.items.push(item);
+    if (!this.hasListeners()) {
+      this.drop(item);
+    } else {
+      this.synthesisChain = this.synthesisChain.then(() => this.synthesize(item));
+      this.enforceMaxPending();
+    }
+    this.trimHistory();
+    this.notify();
+    return item;
+  }
+
+  /**
+   * Confirma el fin de un audio desde un cliente
+   * @returns true si el audio existía y seguía pendiente
+   */
+  ack(id: string, ack: PlaybackAck): boolean {
+    const item = this.items.find(i => i.id === id);
+    if (!item || !['queued', 'playing', 'synthesizing'].includes(item.status)) return false;
+
+    this.finish(item, ack === 'played' ? 'played' : 'skipped');
+    return true;
+  }
+
+  /**
+   * Salta un audio concreto o, si no se indica, el que está sonando
+   */
+  skip(id?: string): boolean {
+    const target = id ?? this.current?.id;
+    return target ? this.ack(target, 'skip') : false;
+  }
+
+  /**
+   * Detiene el envío de nuevos audios (el actual termina normalmente)
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.notify();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.notify();
+    this.pump();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Descarta todos los audios pendientes, incluido el que está sonando
+   * @returns Cantidad de audios descartados
+   */
+  clear(): number {
+    const pending = this.items.filter(i => ['synthesizing', 'queued', 'playing'].includes(i.status));
+    pending.forEach(item => {
+      item.status = 'skipped';
+      item.finishedAt = new Date();
+      item.audio = undefined;
+      this.settle(item, 'skipped');
+    });
+    this.current = null;
+    if (this.ackTimer) clearTimeout(this.ackTimer);
+    this.ackTimer = null;
+    this.trimHistory();
+    this.notify();
+    return pending.length;
+  }
+
+  /**
+   * Estado actual con los elementos pendientes
+   */
+  state(): PlaybackState {
+    return {
+      paused: this.paused,
+      current: this.current?.id ?? null,
+      items: this.list().filter(i => PENDING_STATUSES.includes(i.status)),
+    };
+  }
+
+  /**
+   * Saca mensajes de la fuente si hace falta y envía el siguiente audio
+   * si no hay otro sonando y hay alguien escuchando
+   */
+  pump(): void {
+    if (this.paused || !this.hasListeners()) return;
+    this.playNext();
+    // Con el actual ya sonando se saca el siguiente para sintetizarlo mientras tanto
+    this.pull();
+  }
+
+  /**
+   * Mensajes de un usuario que todavía no han terminado de sonar.
+   * Sin overlays no se va a reproducir nada: 0 (no limita a nadie)
+   */
+  pendingCount(userKey: string): number {
+    if (!this.hasListeners()) return 0;
+    return this.items.filter(i => i.userKey === userKey && PENDING_STATUSES.includes(i.status)).length;
+  }
+
+  get(id: string): PlaybackItem | undefined {
+    return this.items.find(i => i.id === id);
+  }
+
+  /**
+   * Último audio creado para un mensaje de la cola de mensajes
+   */
+  findByMessage(messageId: string): PlaybackItem | undefined {
+    return [...this.items].reverse().find(i => i.messageId === messageId);
+  }
+
+  /**
+   * Devuelve los elementos sin el audio (para listados)
+   */
+  list(): Omit<PlaybackItem, 'audio'>[] {
+    return this.items.map(({ audio, ...rest }) => rest);
+  }
+
+  // Envía el siguiente audio listo si no hay otro sonando
+  private playNext(): void {
+    if (this.current) return;
+    const next = this.items.find(i => i.status === 'queued');
+    if (!next || !next.audio) return;
+
+    next.status = 'playing';
+    next.startedAt = new Date();
+    this.current = next;
+
+    const frame: AudioFrame = {
+      type: 'audio',
+      id: next.id,
+      text: next.text,
+      user: next.user,
+      voice: next.voice,
+      audio: next.audio,
+      mimeType: next.mimeType,
+    };
+    emitter.emit('audio', frame);
+    this.notify();
+
+    const timeout = (next.durationMs ?? DEFAULT_DURATION_MS) + ACK_GRACE_MS;
+    this.ackTimer = setTimeout(() => this.finish(next, 'played'), timeout);
+  }
+
+  private async synthesize(item: PlaybackItem): Promise<void> {
+    if (item.status !== 'synthesizing') return; // Saltado antes de sintetizar
+    if (!this.hasListeners()) {
+      // Los overlays se desconectaron mientras esperaba
+      this.drop(item);
+      this.trimHistory();
+      this.notify();
+      return;
+    }
+    try {
+      const result = await synthesizeAudio(item.text, { voice: item.voice });
+      // Saltado mientras se sintetizaba (clear, skip o maxPending): el audio se descarta
+      if (item.status !== 'synthesizing') return;
+      item.audio = Buffer.from(result.audio).toString('base64');
+      item.mimeType = result.format.mimeType;
+      item.durationMs = result.durationMs;
+      item.status = 'queued';
+    } catch (error) {
+      console.warn('Error generando TTS:', error);
+      if (item.status !== 'synthesizing') return;
+      item.status = 'failed';
+      item.finishedAt = new Date();
+      this.settle(item, 'failed');
+      this.trimHistory();
+    }
+    this.notify();
+    this.pump();
+  }
+
+  private finish(item: PlaybackItem, status: 'played' | 'skipped'): void {
+    item.status = status;
+    item.finishedAt = new Date();
+    item.audio = undefined; // Ya no se necesita y ocupa memoria
+    this.settle(item, status);
+    if (this.current === item) {
+      this.current = null;
+      if (this.ackTimer) clearTimeout(this.ackTimer);
+      this.ackTimer = null;
+    }
+    this.trimHistory();
+    this.notify();
+    this.pump();
+  }
+
+  // Mantiene PREFETCH audios esperando, sacados de la fuente en su orden
+  private pull(): void {
+    if (!this.source) return;
+    while (this.items.filter(i => i.status === 'synthesizing' || i.status === 'queued').length < PREFETCH) {
+      const entry = this.source.next();
+      if (!entry) return;
+      this.enqueue(entry);
+    }
+  }
+
+  // Marca como saltado un elemento que no llegó a sonar
+  private drop(item: PlaybackItem): void {
+    item.status = 'skipped';
+    item.finishedAt = new Date();
+    item.audio = undefined;
+    this.settle(item, 'dropped');
+  }
+
+  private settle(item: PlaybackItem, outcome: PlaybackOutcome): void {
+    if (item.messageId) this.source?.settle?.(item.messageId, outcome);
+  }
+
+  // Limita los audios en espera (cada uno guarda su audio en memoria)
+  private enforceMaxPending(): void {
+    const waiting = this.items.filter(i => i.status === 'synthesizing' || i.status === 'queued');
+    waiting.slice(0, Math.max(0, waiting.length - this.maxPending)).forEach(item => this.drop(item));
+  }
+
+  private notify(): void {
+    emitter.emit('queue-update', this.state());
+  }
+
+  // Mantiene solo los últimos maxHistory elementos terminados
+  private trimHistory(): void {
+    const finished = this.items.filter(i => ['played', 'skipped', 'failed'].includes(i.status));
+    const excess = finished.length - this.maxHistory;
+    if (excess <= 0) return;
+    const toRemove = new Set(finished.slice(0, excess));
+    this.items = this.items.filter(i => !toRemove.has(i));
+  }
+}
+
+// Instancia singleton
+export const playbackQueue = new PlaybackQueue();
@@ -0,0 +1,47 @@
+import { EdgeTTS, type SynthesisOptions } from '@andresaya/edge-tts';
+import type { AudioFormat, ProviderSynthesisOptions, SynthesisResult, TTSProvider, TTSVoice } from './types';
+
+const MP3: AudioFormat = { id: 'mp3', mimeType: 'audio/mpeg' };
+// Edge entrega audio-24khz-48kbitrate-mono-mp3: 48 kbit/s => 6 bytes por milisegundo
+const MP3_BYTES_PER_MS = 48000 / 8 / 1000;
+
+/**
+ * Proveedor basado en el servicio online de Microsoft Edge
+ */
+export class EdgeTTSProvider implements TTSProvider {
+  readonly name = 'ttsEdge';
+  readonly formats: readonly AudioFormat[] = [MP3];
+
+  async synthesize(text: string, voice: string, options: ProviderSynthesisOptions = {}): Promise<SynthesisResult> {
+    const synthesisOptions = this.toEdgeOptions(options);
+    const tts = new EdgeTTS();
+    await tts.synthesize(text, voice, synthesisOptions);
+    const audio = new Uint8Array(tts.toBuffer());
+    return {
+      provider: this.name,
+      voice,
+      format: MP3,
+      audio,
+      durationMs: Math.round(audio.byteLength / MP3_BYTES_PER_MS),
+    };
+  }
+
+  async *synthesizeStream(text: string, voice: string, options: ProviderSynthesisOptions = {}): AsyncIterable<Uint8Array> {
+    const synthesisOptions = this.toEdgeOptions(options);
+    const tts = new EdgeTTS();
+    yield* tts.synthesizeStream(text, voice, synthesisOptions);
+  }
+
+  async listVoices(): Promise<TTSVoice[]> {
+    const tts = new EdgeTTS();
+    return await tts.getVoices();
+  }
+
+  private toEdgeOptions(options: ProviderSynthesisOptions): SynthesisOptions {
+    const { format, ...synthesisOptions } = options;
+    if (format && format !== MP3.id) {
+      throw new Error(`Format "${format}" is not supported by ${this.name}`);
+    }
+    return synthesisOptions;
+  }
+}
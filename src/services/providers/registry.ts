@@ -0,0 +1,132 @@
+import type { ProviderSynthesisOptions, SynthesisResult, SynthesisStream, TTSProvider } from './types';
+import { EdgeTTSProvider } from './edge';
+
+/**
+ * Registro de proveedores de TTS.
+ * Permite elegir un proveedor por nombre y, si falla, intentar con los demás.
+ */
+export class TTSProviderRegistry {
+  private providers = new Map<string, TTSProvider>();
+  private fallbackOrder: string[] = [];
+
+  /**
+   * Registra (o reemplaza) un proveedor bajo su nombre
+   */
+  register(provider: TTSProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Elimina un proveedor del registro
+   */
+  unregister(name: string): boolean {
+    this.fallbackOrder = this.fallbackOrder.filter(n => n !== name);
+    return this.providers.delete(name);
+  }
+
+  get(name: string): TTSProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  list(): TTSProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Define el orden en que se prueban los proveedores cuando falla el principal.
+   * Si está vacío se usan el resto de proveedores en orden de registro.
+   */
+  setFallbackOrder(names: string[]): void {
+    this.fallbackOrder = [...names];
+  }
+
+  getFallbackOrder(): string[] {
+    return [...this.fallbackOrder];
+  }
+
+  /**
+   * Devuelve los proveedores a probar, empezando por el principal
+   */
+  resolveChain(primary: string): TTSProvider[] {
+    const order = this.fallbackOrder.length > 0 ? this.fallbackOrder : Array.from(this.providers.keys());
+    const names = [primary, ...order.filter(n => n !== primary)];
+    return names
+      .map(name => this.providers.get(name))
+      .filter((p): p is TTSProvider => p !== undefined);
+  }
+
+  /**
+   * Sintetiza con el proveedor indicado y recurre a los de respaldo si falla
+   */
+  async synthesize(primary: string, text: string, voice: string, options?: ProviderSynthesisOptions): Promise<SynthesisResult> {
+    const chain = this.resolveChain(primary);
+    if (chain.length === 0) {
+      throw new Error(`No TTS provider registered for "${primary}"`);
+    }
+
+    const errors: unknown[] = [];
+    for (const provider of chain) {
+      try {
+        return await provider.synthesize(text, voice, options);
+      } catch (error) {
+        console.warn(`TTS provider "${provider.name}" failed:`, error);
+        errors.push(error);
+      }
+    }
+    throw new AggregateError(errors, `All TTS providers failed (${chain.map(p => p.name).join(', ')})`);
+  }
+
+  /**
+   * Igual que synthesize pero entregando el audio por fragmentos.
+   * Solo se recurre a otro proveedor si falla antes del primer fragmento;
+   * los proveedores sin streaming entregan el audio completo como un único fragmento.
+   */
+  async stream(primary: string, text: string, voice: string, options?: ProviderSynthesisOptions): Promise<SynthesisStream> {
+    const chain = this.resolveChain(primary);
+    if (chain.length === 0) {
+      throw new Error(`No TTS provider registered for "${primary}"`);
+    }
+
+    const errors: unknown[] = [];
+    for (const provider of chain) {
+      try {
+        if (!provider.synthesizeStream) {
+          const result = await provider.synthesize(text, voice, options);
+          return { provider: provider.name, voice, format: result.format, chunks: singleChunk(result.audio) };
+        }
+
+        const iterator = provider.synthesizeStream(text, voice, options)[Symbol.asyncIterator]();
+        const first = await iterator.next();
+        const format = provider.formats.find(f => f.id === options?.format) ?? provider.formats[0];
+        return { provider: provider.name, voice, format, chunks: resumeIterator(first, iterator) };
+      } catch (error) {
+        console.warn(`TTS provider "${provider.name}" failed:`, error);
+        errors.push(error);
+      }
+    }
+    throw new AggregateError(errors, `All TTS providers failed (${chain.map(p => p.name).join(', ')})`);
+  }
+}
+
+async function* singleChunk(audio: Uint8Array): AsyncIterable<Uint8Array> {
+  yield audio;
+}
+
+async function* resumeIterator(
+  first: IteratorResult<Uint8Array>,
+  iterator: AsyncIterator<Uint8Array>
+): AsyncIterable<Uint8Array> {
+  let current = first;
+  while (!current.done) {
+    yield current.value;
+    current = await iterator.next();
+  }
+}
+
+// Instancia singleton con los proveedores incluidos
+export const ttsRegistry = new TTSProviderRegistry();
+ttsRegistry.register(new EdgeTTSProvider());
@@ -0,0 +1,59 @@
+import type { SynthesisOptions } from '@andresaya/edge-tts';
+
+// Descripción de una voz. Se usa el mismo formato (PascalCase) que devuelve Edge
+// para que temp/voices.json sirva sin transformaciones.
+export interface TTSVoice {
+  Name: string;
+  ShortName: string;
+  Gender: string;
+  Locale: string;
+  FriendlyName?: string;
+  LocalName?: string;
+  LocaleName?: string;
+  DisplayName?: string;
+  VoiceType?: string;
+  WordsPerMinute?: string;
+  VoiceTag?: {
+    TailoredScenarios?: string[];
+    VoicePersonalities?: string[];
+  };
+}
+
+// Formato de audio soportado por un proveedor
+export interface AudioFormat {
+  id: string;       // Identificador corto (ej. 'mp3')
+  mimeType: string; // Content-Type que se debe enviar al cliente
+}
+
+// Resultado de una síntesis
+export interface SynthesisResult {
+  provider: string;
+  voice: string;
+  format: AudioFormat;
+  audio: Uint8Array;
+  durationMs?: number;
+}
+
+export interface ProviderSynthesisOptions extends SynthesisOptions {
+  format?: string;
+}
+
+/**
+ * Contrato que debe cumplir cualquier motor de TTS (Edge, espeak-ng, Piper...)
+ */
+export interface TTSProvider {
+  readonly name: string;
+  readonly formats: readonly AudioFormat[];
+  synthesize(text: string, voice: string, options?: ProviderSynthesisOptions): Promise<SynthesisResult>;
+  // Opcional: entrega el audio por fragmentos a medida que se genera
+  synthesizeStream?(text: string, voice: string, options?: ProviderSynthesisOptions): AsyncIterable<Uint8Array>;
+  listVoices(): Promise<TTSVoice[]>;
+}
+
+// Audio entregado por fragmentos
+export interface SynthesisStream {
+  provider: string;
+  voice: string;
+  format: AudioFormat;
+  chunks: AsyncIterable<Uint8Array>;
+}
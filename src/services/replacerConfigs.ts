@@ -0,0 +1,225 @@
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+import path from "path";
+import { ConfigurableReplacer, type Config, type ReplacementConfig } from '../controllers/ConfigurableReplacer';
+
+const tempPath = path.join(process.cwd(),'temp')
+
+// Configuración guardada de una instancia de ConfigurableReplacer
+export interface ReplacerConfig extends Config {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ReplacerConfigInput = Partial<Pick<Config, 'instanceId' | 'replacements' | 'removeBackslashes' | 'useLocalStorage' | 'localStorageKeys'>>;
+
+// Formato de exportación/importación
+export interface ReplacerExport {
+  version: 1;
+  exportedAt: Date;
+  configs: ReplacerConfig[];
+}
+
+// Instancia que se usa cuando el webhook no indica ninguna
+export const DEFAULT_INSTANCE = 'default';
+
+const INSTANCE_ID_REGEX = /^[\w-]{1,64}$/;
+
+const dataStorage = new DataStorage<Record<string, ReplacerConfig>>(new JSONFile(path.join(tempPath,'data/replacer-configs.json')));
+
+function validateReplacements(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return ['replacements must be an object'];
+  const errors: string[] = [];
+  for (const [pattern, option] of Object.entries(value)) {
+    if (!pattern.trim()) {
+      errors.push('replacement patterns must be non-empty');
+    } else if (typeof option !== 'object' || option === null || typeof option.dataKey !== 'string' || !option.dataKey.trim()) {
+      errors.push(`replacements["${pattern}"].dataKey must be a non-empty string`);
+    } else if (typeof option.defaultValue !== 'string') {
+      errors.push(`replacements["${pattern}"].defaultValue must be a string`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Configuraciones de ConfigurableReplacer por instanceId, guardadas en
+ * temp/data/replacer-configs.json. La instancia 'default' siempre existe.
+ */
+export class ReplacerConfigManager {
+  private configs: Record<string, ReplacerConfig> = {};
+  private replacers = new Map<string, ConfigurableReplacer>();
+  readonly ready: Promise<void>;
+
+  // storage: por defecto temp/data/replacer-configs.json
+  constructor(private storage = dataStorage) {
+    this.configs = { [DEFAULT_INSTANCE]: this.defaultConfig(DEFAULT_INSTANCE) };
+    this.ready = this.loadBackup();
+  }
+
+  list(): ReplacerConfig[] {
+    return Object.values(this.configs);
+  }
+
+  get(instanceId: string): ReplacerConfig | undefined {
+    return Object.hasOwn(this.configs, instanceId) ? this.configs[instanceId] : undefined;
+  }
+
+  /**
+   * Replacer de una instancia (la 'default' sin instanceId)
+   * @returns undefined si la instancia no existe
+   */
+  getReplacer(instanceId: string = DEFAULT_INSTANCE): ConfigurableReplacer | undefined {
+    const config = this.get(instanceId);
+    if (!config) return undefined;
+    let replacer = this.replacers.get(instanceId);
+    if (!replacer) {
+      replacer = new ConfigurableReplacer(config);
+      this.replacers.set(instanceId, replacer);
+    }
+    return replacer;
+  }
+
+  /**
+   * Valida una configuración completa (la nueva o el resultado de aplicar cambios)
+   * @returns Lista de errores
+   */
+  validate(input: ReplacerConfigInput): string[] {
+    const errors: string[] = [];
+    if (typeof input.instanceId !== 'string' || !INSTANCE_ID_REGEX.test(input.instanceId)) {
+      errors.push('instanceId must be 1-64 letters, numbers, "_" or "-"');
+    }
+    if (input.replacements !== undefined) errors.push(...validateReplacements(input.replacements));
+    for (const key of ['removeBackslashes', 'useLocalStorage'] as const) {
+      if (input[key] !== undefined && typeof input[key] !== 'boolean') errors.push(`${key} must be a boolean`);
+    }
+    if (input.localStorageKeys !== undefined) {
+      const keys = input.localStorageKeys;
+      if (typeof keys !== 'object' || keys === null || Array.isArray(keys) ||
+        Object.values(keys).some(list => !Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+        errors.push('localStorageKeys must be an object of string arrays');
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Crea una instancia. Sin replacements usa los de getDefaultReplacements()
+   * @returns La configuración, la lista de errores o conflict si ya existe
+   */
+  create(input: ReplacerConfigInput): { ok: true; config: ReplacerConfig } | { ok: false; errors: string[]; conflict?: boolean } {
+    const errors = this.validate(input);
+    if (errors.length > 0) return { ok: false, errors };
+    if (this.get(input.instanceId!)) return { ok: false, errors: ['instanceId already exists'], conflict: true };
+
+    const config = this.build(input);
+    this.configs[config.instanceId] = config;
+    this.saveData();
+    return { ok: true, config };
+  }
+
+  /**
+   * Modifica una instancia. replacements sustituye la lista completa.
+   */
+  update(instanceId: string, changes: ReplacerConfigInput): { ok: true; config: ReplacerConfig } | { ok: false; errors: string[] } | undefined {
+    const existing = this.get(instanceId);
+    if (!existing) return undefined;
+
+    const next = { ...existing, ...changes, instanceId };
+    const errors = this.validate(next);
+    if (errors.length > 0) return { ok: false, errors };
+
+    const config: ReplacerConfig = { ...this.build(next), createdAt: existing.createdAt };
+    this.configs[instanceId] = config;
+    this.replacers.delete(instanceId);
+    this.saveData();
+    return { ok: true, config };
+  }
+
+  /**
+   * Elimina una instancia. La 'default' vuelve a su configuración inicial.
+   */
+  remove(instanceId: string): boolean {
+    if (!this.get(instanceId)) return false;
+    if (instanceId === DEFAULT_INSTANCE) this.configs[instanceId] = this.defaultConfig(instanceId);
+    else delete this.configs[instanceId];
+    this.replacers.delete(instanceId);
+    this.saveData();
+    return true;
+  }
+
+  export(instanceIds?: string[]): ReplacerExport {
+    const configs = instanceIds ? instanceIds.map(id => this.get(id)).filter((c): c is ReplacerConfig => !!c) : this.list();
+    return { version: 1, exportedAt: new Date(), configs };
+  }
+
+  /**
+   * Importa configuraciones exportadas. Las que ya existen se saltan salvo con overwrite.
+   * Si alguna no es válida no se importa ninguna.
+   */
+  import(configs: unknown, overwrite = false): { ok: true; imported: string[]; skipped: string[] } | { ok: false; errors: string[] } {
+    if (!Array.isArray(configs) || configs.length === 0) return { ok: false, errors: ['configs must be a non-empty array'] };
+    const errors = configs.flatMap((input, index) =>
+      typeof input !== 'object' || input === null
+        ? [`configs[${index}] must be an object`]
+        : this.validate(input).map(error => `configs[${index}]: ${error}`)
+    );
+    if (errors.length > 0) return { ok: false, errors };
+
+    const imported: string[] = [];
+    const skipped: string[] = [];
+    for (const input of configs as ReplacerConfigInput[]) {
+      const existing = this.get(input.instanceId!);
+      if (existing && !overwrite) {
+        skipped.push(input.instanceId!);
+        continue;
+      }
+      this.configs[input.instanceId!] = { ...this.build(input), createdAt: existing?.createdAt ?? new Date() };
+      this.replacers.delete(input.instanceId!);
+      imported.push(input.instanceId!);
+    }
+    if (imported.length > 0) this.saveData();
+    return { ok: true, imported, skipped };
+  }
+
+  private build(input: ReplacerConfigInput): ReplacerConfig {
+    // El constructor de ConfigurableReplacer rellena los valores por defecto
+    const { config } = new ConfigurableReplacer({
+      ...input,
+      replacements: input.replacements ? { ...input.replacements } as ReplacementConfig : undefined,
+    });
+    const now = new Date();
+    return { ...config, createdAt: now, updatedAt: now };
+  }
+
+  private defaultConfig(instanceId: string): ReplacerConfig {
+    return this.build({ instanceId });
+  }
+
+  private saveData(): void {
+    this.storage.save('data', this.configs)
+      .catch((error: unknown) => console.error('Error saving replacer configs:', error));
+  }
+
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await this.storage.load('data');
+      if (data) {
+        for (const [instanceId, config] of Object.entries<ReplacerConfig>(data)) {
+          this.configs[instanceId] = {
+            ...config,
+            instanceId,
+            createdAt: new Date(config.createdAt),
+            updatedAt: new Date(config.updatedAt),
+          };
+        }
+        this.replacers.clear();
+      }
+    } catch (error) {
+      console.error('Error loading replacer configs backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const replacerConfigs = new ReplacerConfigManager();
@@ -1,10 +1,9 @@
-import { EdgeTTS,type Voice,type SynthesisOptions } from '@andresaya/edge-tts';
-import { DataStorage } from "json-obj-manager";
-import { JSONFileAdapter } from "json-obj-manager/node";
+import { type SynthesisOptions } from '@andresaya/edge-tts';
 import { SpamCleaner, createCleaner, quickClean } from "../filters/spam-cleaner"
-import path from "path";
+import { ttsRegistry } from './providers/registry';
+import type { AudioFormat, SynthesisResult, SynthesisStream } from './providers/types';
 
-interface ttsOptions {
+export interface ttsOptions {
     ttsprovider: string
     voice:string;
     options:SynthesisOptions;
@@ -16,25 +15,54 @@ export const TTS_Config:ttsOptions = {
 
    }
 }
-const tempPath = path.join(process.cwd(),'temp')
-const voiceStorage = new DataStorage<Voice[]>(
-    new JSONFileAdapter(path.join(tempPath, 'voices.json'))
-)
-// Initialize the EdgeTTS service
-const tts = new EdgeTTS();
-const voices = await tts.getVoices();
-voiceStorage.save('voices',voices)
-console.log(`Found ${voices.length} voices`);
-async function textToSpeech(text:string,voice:string,options:SynthesisOptions) {
-    try {
-        const tts = new EdgeTTS();
-        await tts.synthesize(text, voice, options);
-        return tts;
-    } catch (error) {
-        throw error;
+async function textToSpeech(text:string,voice:string,options:SynthesisOptions): Promise<SynthesisResult> {
+    return ttsRegistry.synthesize(TTS_Config.ttsprovider, text, voice, options);
+}
+// Caché pequeña para no volver a sintetizar cuando el navegador pide rangos del mismo audio
+const AUDIO_CACHE_SIZE = 20;
+const audioCache = new Map<string, SynthesisResult>();
+
+interface AudioRequest {
+    voice?: string;
+    format?: string;
+}
+
+/**
+ * Formatos que admite el proveedor configurado
+ */
+function getSupportedFormats(): readonly AudioFormat[] {
+    return ttsRegistry.get(TTS_Config.ttsprovider)?.formats ?? [];
+}
+
+/**
+ * Sintetiza el texto y devuelve el audio binario (con caché LRU)
+ */
+async function synthesizeAudio(text: string, { voice = TTS_Config.voice, format }: AudioRequest = {}): Promise<SynthesisResult> {
+    const options = { ...TTS_Config.options, format };
+    const key = JSON.stringify([TTS_Config.ttsprovider, voice, options, text]);
+    const cached = audioCache.get(key);
+    if (cached) {
+        // Volver a insertar para marcarlo como usado recientemente
+        audioCache.delete(key);
+        audioCache.set(key, cached);
+        return cached;
+    }
+    const result = await ttsRegistry.synthesize(TTS_Config.ttsprovider, text, voice, options);
+    audioCache.set(key, result);
+    if (audioCache.size > AUDIO_CACHE_SIZE) {
+        audioCache.delete(audioCache.keys().next().value!);
     }
+    return result;
 }
-async function processCompleteText(completeText: string): Promise<string | null> {
+
+/**
+ * Sintetiza el texto entregando el audio por fragmentos
+ */
+async function streamAudio(text: string, { voice = TTS_Config.voice, format }: AudioRequest = {}): Promise<SynthesisStream> {
+    return ttsRegistry.stream(TTS_Config.ttsprovider, text, voice, { ...TTS_Config.options, format });
+}
+
+async function processCompleteText(completeText: string, voice: string = TTS_Config.voice): Promise<string | null> {
   // Siempre enviar el texto completo (con expresiones) para mostrar al usuario
   let audioData = null;
   
@@ -49,8 +77,8 @@ async function processCompleteText(completeText: string): Promise<string | null>
       // Solo generar audio si hay texto limpio
       if (cleanedText.trim()) {
         try {
-          const resultTTS = await textToSpeech(cleanedText, TTS_Config.voice, TTS_Config.options);
-          audioData = resultTTS.toBase64();
+          const resultTTS = await textToSpeech(cleanedText, voice, TTS_Config.options);
+          audioData = Buffer.from(resultTTS.audio).toString('base64');
         //  queue.add(audioData);
         } catch (ttsError) {
           console.warn('Error generando TTS:', ttsError);
@@ -65,4 +93,4 @@ async function processCompleteText(completeText: string): Promise<string | null>
     return audioData;
   }
 }
-export {processCompleteText}
\ No newline at end of file
+export {processCompleteText, textToSpeech, synthesizeAudio, streamAudio, getSupportedFormats}
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+import path from "path";
+import { TTS_Config, type ttsOptions } from './tts';
+import { ttsRegistry } from './providers/registry';
+import { voiceCatalog } from './voiceCatalog';
+import { emitter } from '../Emitter';
+
+const tempPath = path.join(process.cwd(),'temp')
+const dataStorage = new DataStorage<ttsOptions>(new JSONFile(path.join(tempPath,'data/tts-config.json')));
+
+type ProsodyKey = 'rate' | 'pitch' | 'volume';
+
+// Rangos permitidos para la prosodia (mismas unidades que usa Edge)
+export const PROSODY_RANGES: Record<ProsodyKey, { min: number; max: number; unit: string }> = {
+  rate: { min: -100, max: 200, unit: '%' },
+  pitch: { min: -100, max: 100, unit: 'Hz' },
+  volume: { min: -100, max: 100, unit: '%' },
+};
+
+// Cambios aceptados por PUT /api/tts/config. null elimina la opción.
+export interface TTSConfigUpdate {
+  ttsprovider?: string;
+  voice?: string;
+  options?: Partial<Record<ProsodyKey, string | number | null>>;
+}
+
+export interface ConfigValidationError {
+  field: string;
+  message: string;
+}
+
+export type ConfigUpdateResult =
+  | { ok: true; config: ttsOptions }
+  | { ok: false; errors: ConfigValidationError[] };
+
+/**
+ * Convierte '+10%', '-5Hz', '20' o 20 en número.
+ * Devuelve null si el formato o la unidad no son válidos.
+ */
+function parseProsodyValue(value: string | number, unit: string): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = value.trim().match(new RegExp(`^([+-]?\\d+(?:\\.\\d+)?)(${unit})?$`, 'i'));
+  return match ? parseFloat(match[1]) : null;
+}
+
+function formatProsodyValue(value: number, unit: string): string {
+  return `${value >= 0 ? '+' : ''}${value}${unit}`;
+}
+
+/**
+ * Gestiona la configuración de voz y prosodia en tiempo de ejecución.
+ * Los cambios se aplican sobre TTS_Config, así que afectan a la siguiente síntesis.
+ */
+export class TTSConfigManager {
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadBackup();
+  }
+
+  get(): ttsOptions {
+    return TTS_Config;
+  }
+
+  /**
+   * Valida un cambio de configuración sin aplicarlo
+   */
+  async validate(update: TTSConfigUpdate): Promise<ConfigValidationError[]> {
+    const errors: ConfigValidationError[] = [];
+
+    if (update.ttsprovider !== undefined) {
+      if (typeof update.ttsprovider !== 'string' || !ttsRegistry.has(update.ttsprovider)) {
+        errors.push({ field: 'ttsprovider', message: `Unknown TTS provider "${update.ttsprovider}"` });
+      }
+    }
+
+    if (update.voice !== undefined) {
+      if (typeof update.voice !== 'string' || !update.voice.trim()) {
+        errors.push({ field: 'voice', message: 'Voice must be a non-empty string' });
+      } else if (!(await voiceCatalog.isKnownVoice(update.voice))) {
+        errors.push({ field: 'voice', message: `Unknown voice "${update.voice}"` });
+      }
+    }
+
+    if (update.options !== undefined) {
+      if (typeof update.options !== 'object' || update.options === null || Array.isArray(update.options)) {
+        errors.push({ field: 'options', message: 'Options must be an object' });
+      } else {
+        for (const [key, value] of Object.entries(update.options)) {
+          const range = PROSODY_RANGES[key as ProsodyKey];
+          if (!range) {
+            errors.push({ field: `options.${key}`, message: `Unknown option "${key}"` });
+            continue;
+          }
+          if (value === null) continue;
+          const parsed = typeof value === 'string' || typeof value === 'number'
+            ? parseProsodyValue(value, range.unit)
+            : null;
+          if (parsed === null) {
+            errors.push({ field: `options.${key}`, message: `Invalid ${key} value "${value}"` });
+          } else if (parsed < range.min || parsed > range.max) {
+            errors.push({
+              field: `options.${key}`,
+              message: `${key} must be between ${range.min}${range.unit} and ${range.max}${range.unit}`,
+            });
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Valida, aplica y guarda un cambio de configuración
+   */
+  async update(update: TTSConfigUpdate): Promise<ConfigUpdateResult> {
+    await this.ready;
+    const errors = await this.validate(update);
+    if (errors.length > 0) return { ok: false, errors };
+
+    if (update.ttsprovider !== undefined) TTS_Config.ttsprovider = update.ttsprovider;
+    if (update.voice !== undefined) {
+      // Guardar el ShortName con el casing oficial del catálogo
+      const voice = await voiceCatalog.findVoice(update.voice);
+      TTS_Config.voice = voice?.ShortName ?? update.voice.trim();
+    }
+    if (update.options !== undefined) {
+      const options = { ...TTS_Config.options };
+      for (const [key, value] of Object.entries(update.options)) {
+        const prosodyKey = key as ProsodyKey;
+        if (value === null || value === undefined) {
+          delete options[prosodyKey];
+        } else {
+          const { unit } = PROSODY_RANGES[prosodyKey];
+          options[prosodyKey] = formatProsodyValue(parseProsodyValue(value, unit)!, unit);
+        }
+      }
+      TTS_Config.options = options;
+    }
+
+    this.saveConfig();
+    emitter.emit('config-changed', TTS_Config);
+    return { ok: true, config: TTS_Config };
+  }
+
+  private saveConfig(): void {
+    dataStorage.save('data', TTS_Config)
+      .catch((error: unknown) => console.error('Error saving TTS config:', error));
+  }
+
+  /**
+   * Carga la configuración guardada sobre TTS_Config
+   */
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await dataStorage.load('data');
+      if (data) {
+        TTS_Config.ttsprovider = data.ttsprovider ?? TTS_Config.ttsprovider;
+        TTS_Config.voice = data.voice ?? TTS_Config.voice;
+        TTS_Config.options = data.options ?? TTS_Config.options;
+      }
+    } catch (error) {
+      console.error('Error loading TTS config backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const ttsConfigManager = new TTSConfigManager();
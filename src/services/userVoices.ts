@@ -0,0 +1,200 @@
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+import path from "path";
+import { TTS_Config } from './tts';
+import { voiceCatalog } from './voiceCatalog';
+
+const tempPath = path.join(process.cwd(),'temp')
+
+// Voz asignada manualmente a un usuario
+export interface UserVoiceAssignment {
+  userKey: string;
+  voice: string;
+  updatedAt: Date;
+}
+
+// Asignación automática: cada usuario recibe siempre la misma voz del pool
+export interface AutoAssignConfig {
+  enabled: boolean;
+  pool: string[];
+}
+
+// Campos de usuario que extrae processIaResponse/contentTEXT
+export interface UserIdentity {
+  uniqueId?: string;
+  username?: string;
+  user?: string;
+}
+
+export interface ResolvedVoice {
+  voice: string;
+  source: 'user' | 'auto' | 'default';
+  userKey?: string;
+}
+
+interface UserVoiceData {
+  assignments: Record<string, UserVoiceAssignment>;
+  autoAssign: AutoAssignConfig;
+}
+
+const dataStorage = new DataStorage<UserVoiceData>(new JSONFile(path.join(tempPath,'data/user-voices.json')));
+
+/**
+ * Normaliza un identificador de usuario ('@Nick ' => 'nick')
+ */
+export function normalizeUserKey(value?: string | null): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const key = value.trim().replace(/^@/, '').toLowerCase();
+  return key || undefined;
+}
+
+/**
+ * Clave estable para un usuario: uniqueId, luego username y por último el nombre visible
+ */
+export function getUserKey(identity: UserIdentity): string | undefined {
+  return normalizeUserKey(identity.uniqueId)
+    ?? normalizeUserKey(identity.username)
+    ?? normalizeUserKey(identity.user);
+}
+
+// Hash FNV-1a de 32 bits: determinista entre reinicios y plataformas
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Gestiona la voz con la que se lee a cada usuario del chat
+ */
+export class UserVoiceManager {
+  private assignments: Record<string, UserVoiceAssignment> = {};
+  private autoAssign: AutoAssignConfig = { enabled: false, pool: [] };
+  readonly ready: Promise<void>;
+
+  // storage: por defecto temp/data/user-voices.json
+  constructor(private storage = dataStorage) {
+    this.ready = this.loadBackup();
+  }
+
+  /**
+   * Devuelve todas las asignaciones manuales
+   */
+  list(): UserVoiceAssignment[] {
+    return Object.values(this.assignments);
+  }
+
+  get(user: string): UserVoiceAssignment | undefined {
+    const key = normalizeUserKey(user);
+    return key ? this.assignments[key] : undefined;
+  }
+
+  /**
+   * Asigna una voz a un usuario. Devuelve null si la voz no existe.
+   */
+  async set(user: string, voice: string): Promise<UserVoiceAssignment | null> {
+    await this.ready;
+    const key = normalizeUserKey(user);
+    if (!key || !(await voiceCatalog.isKnownVoice(voice))) return null;
+
+    const assignment: UserVoiceAssignment = {
+      userKey: key,
+      voice: (await voiceCatalog.findVoice(voice))?.ShortName ?? voice.trim(),
+      updatedAt: new Date(),
+    };
+    this.assignments[key] = assignment;
+    this.saveData();
+    return assignment;
+  }
+
+  async remove(user: string): Promise<boolean> {
+    await this.ready;
+    const key = normalizeUserKey(user);
+    if (!key || !this.assignments[key]) return false;
+    delete this.assignments[key];
+    this.saveData();
+    return true;
+  }
+
+  getAutoAssign(): AutoAssignConfig {
+    return this.autoAssign;
+  }
+
+  /**
+   * Actualiza la asignación automática.
+   * Devuelve las voces del pool que no existen (vacío si se aplicó el cambio).
+   */
+  async setAutoAssign(config: Partial<AutoAssignConfig>): Promise<string[]> {
+    await this.ready;
+    let pool = this.autoAssign.pool;
+    if (config.pool !== undefined) {
+      const unknown: string[] = [];
+      pool = [];
+      for (const voice of config.pool) {
+        if (await voiceCatalog.isKnownVoice(voice)) {
+          pool.push((await voiceCatalog.findVoice(voice))?.ShortName ?? voice.trim());
+        } else {
+          unknown.push(voice);
+        }
+      }
+      if (unknown.length > 0) return unknown;
+    }
+
+    this.autoAssign = {
+      enabled: config.enabled ?? this.autoAssign.enabled,
+      pool: Array.from(new Set(pool)),
+    };
+    this.saveData();
+    return [];
+  }
+
+  /**
+   * Resuelve la voz de un usuario: asignación manual, luego automática y si no la global
+   */
+  resolveVoice(identity: UserIdentity): ResolvedVoice {
+    const userKey = getUserKey(identity);
+    if (userKey) {
+      const assignment = this.assignments[userKey];
+      if (assignment) return { voice: assignment.voice, source: 'user', userKey };
+
+      const { enabled, pool } = this.autoAssign;
+      if (enabled && pool.length > 0) {
+        return { voice: pool[hashString(userKey) % pool.length], source: 'auto', userKey };
+      }
+    }
+    return { voice: TTS_Config.voice, source: 'default', userKey };
+  }
+
+  private saveData(): void {
+    this.storage.save('data', {
+      assignments: this.assignments,
+      autoAssign: this.autoAssign,
+    }).catch((error: unknown) => console.error('Error saving user voices:', error));
+  }
+
+  async loadBackup(): Promise<void> {
+    try {
+      const data = await this.storage.load('data');
+      if (data) {
+        this.assignments = Object.fromEntries(
+          Object.entries<UserVoiceAssignment>(data.assignments ?? {}).map(([key, assignment]) => [
+            key,
+            { ...assignment, updatedAt: new Date(assignment.updatedAt) },
+          ])
+        );
+        this.autoAssign = {
+          enabled: data.autoAssign?.enabled ?? false,
+          pool: data.autoAssign?.pool ?? [],
+        };
+      }
+    } catch (error) {
+      console.error('Error loading user voices backup:', error);
+    }
+  }
+}
+
+// Instancia singleton
+export const userVoiceManager = new UserVoiceManager();
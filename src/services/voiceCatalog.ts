@@ -0,0 +1,159 @@
+import { DataStorage } from "json-obj-manager";
+import { JSONFileAdapter } from "json-obj-manager/node";
+import path from "path";
+import { ttsRegistry } from './providers/registry';
+import type { TTSVoice } from './providers/types';
+import { TTS_Config } from './tts';
+
+const tempPath = path.join(process.cwd(),'temp')
+const voiceStorage = new DataStorage<TTSVoice[]>(
+    new JSONFileAdapter(path.join(tempPath, 'voices.json'))
+)
+
+// Filtros disponibles para buscar voces
+export interface VoiceQuery {
+  locale?: string;      // 'es' coincide con 'es-PE', 'es-MX'...; 'es-PE' solo con 'es-PE'
+  gender?: string;
+  personality?: string; // Valor de VoiceTag.VoicePersonalities
+  prefix?: string;      // Prefijo de ShortName
+}
+
+const DEFAULT_TTL_MS = 6 * 60 * 60 * 1000; // 6 horas
+
+/**
+ * Catálogo de voces con carga perezosa.
+ * Lee primero temp/voices.json y actualiza desde el proveedor en segundo plano
+ * cuando los datos superan el TTL.
+ */
+export class VoiceCatalog {
+  private voices: TTSVoice[] = [];
+  private fetchedAt = 0; // Última actualización desde el proveedor (0 = solo caché en disco)
+  private loadPromise: Promise<void> | null = null;
+  private refreshPromise: Promise<TTSVoice[]> | null = null;
+
+  // storage: por defecto temp/voices.json
+  constructor(private ttlMs: number = DEFAULT_TTL_MS, private storage = voiceStorage) {}
+
+  /**
+   * Devuelve las voces conocidas. Si no hay ninguna espera a la primera
+   * actualización; si están caducadas la lanza sin bloquear.
+   */
+  async getVoices(): Promise<TTSVoice[]> {
+    await this.loadFromDisk();
+    if (this.voices.length === 0) {
+      await this.refresh().catch(() => undefined);
+    } else if (this.isStale()) {
+      this.refresh().catch(() => undefined);
+    }
+    return this.voices;
+  }
+
+  /**
+   * Voces en memoria, sin provocar cargas ni actualizaciones
+   */
+  cached(): readonly TTSVoice[] {
+    return this.voices;
+  }
+
+  isStale(): boolean {
+    return Date.now() - this.fetchedAt > this.ttlMs;
+  }
+
+  setTTL(ttlMs: number): void {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Pide la lista al proveedor configurado y la guarda en disco.
+   * Las llamadas concurrentes comparten la misma petición.
+   */
+  refresh(): Promise<TTSVoice[]> {
+    if (this.refreshPromise) return this.refreshPromise;
+
+    this.refreshPromise = (async () => {
+      const provider = ttsRegistry.get(TTS_Config.ttsprovider);
+      if (!provider) throw new Error(`No TTS provider registered for "${TTS_Config.ttsprovider}"`);
+      const voices = await provider.listVoices();
+      this.voices = voices;
+      this.fetchedAt = Date.now();
+      await this.storage.save('voices', voices);
+      console.log(`Found ${voices.length} voices`);
+      return voices;
+    })();
+
+    this.refreshPromise
+      .catch(error => console.warn('Error refreshing voice catalog:', error))
+      .finally(() => { this.refreshPromise = null; });
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Busca una voz por ShortName (sin distinguir mayúsculas)
+   */
+  async findVoice(shortName: string): Promise<TTSVoice | undefined> {
+    const voices = await this.getVoices();
+    const name = shortName.toLowerCase();
+    return voices.find(v => v.ShortName.toLowerCase() === name);
+  }
+
+  /**
+   * Indica si una voz existe en el catálogo.
+   * Sin catálogo (por ejemplo sin conexión) no hay contra qué validar y se acepta.
+   */
+  async isKnownVoice(shortName: string): Promise<boolean> {
+    const voices = await this.getVoices();
+    return voices.length === 0 || (await this.findVoice(shortName)) !== undefined;
+  }
+
+  /**
+   * Filtra las voces por locale, género, personalidad y prefijo de ShortName
+   */
+  async search(query: VoiceQuery = {}): Promise<TTSVoice[]> {
+    const voices = await this.getVoices();
+    return filterVoices(voices, query);
+  }
+
+  private loadFromDisk(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const data = await this.storage.load('voices');
+          if (Array.isArray(data) && this.voices.length === 0) {
+            this.voices = data;
+          }
+        } catch (error) {
+          console.error('Error loading voices backup:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+}
+
+/**
+ * Aplica un VoiceQuery sobre una lista de voces
+ */
+export function filterVoices(voices: readonly TTSVoice[], query: VoiceQuery): TTSVoice[] {
+  const locale = query.locale?.toLowerCase();
+  const gender = query.gender?.toLowerCase();
+  const personality = query.personality?.toLowerCase();
+  const prefix = query.prefix?.toLowerCase();
+
+  return voices.filter(voice => {
+    if (locale) {
+      const voiceLocale = voice.Locale.toLowerCase();
+      if (voiceLocale !== locale && !voiceLocale.startsWith(`${locale}-`)) return false;
+    }
+    if (gender && voice.Gender.toLowerCase() !== gender) return false;
+    if (personality) {
+      const personalities = voice.VoiceTag?.VoicePersonalities ?? [];
+      if (!personalities.some(p => p.toLowerCase() === personality)) return false;
+    }
+    if (prefix && !voice.ShortName.toLowerCase().startsWith(prefix)) return false;
+    return true;
+  });
+}
+
+// Instancia singleton
+export const voiceCatalog = new VoiceCatalog();
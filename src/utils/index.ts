@@ -4,6 +4,9 @@ import type { UserDisplay, MessageContent, UserIdentifier, Messages } from "../s
 // Estas deben reflejar las claves exactas de tus tipos UserDisplay, MessageContent, UserIdentifier.
 // No deben contener variantes de casing o redundancias como 'displayname' y 'displayName'.
 const ORIGINAL_USER_IDENTIFIER_KEYS: Array<keyof UserIdentifier> = ['id'];
+// El id numérico suele venir como userId; uniqueId es el @ del usuario y no debe confundirse con id
+const USER_ID_KEYS = ['userId', ...ORIGINAL_USER_IDENTIFIER_KEYS];
+const UNIQUE_ID_KEYS: Array<keyof UserDisplay> = ['uniqueId'];
 const ORIGINAL_USER_DISPLAY_KEYS: Array<keyof UserDisplay> = ['displayName', 'nickname', 'username'];
 const ORIGINAL_MESSAGE_CONTENT_KEYS: Array<keyof MessageContent> = ['message', 'content', 'comment', 'text', 'msg'];
 function selectValueByPriority<T, K extends keyof T>(
@@ -85,6 +88,13 @@ function extractValue<T>(obj: any, possibleKeys: string[]): T | undefined {
 }
 
 
+// Los ids pueden llegar como número
+function toIdentifier(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
 /**
  * Procesa un objeto de respuesta de la IA para extraer la información de Messages.
  * Utiliza 'extractValue' para buscar los campos de forma insensible al caso y anidada.
@@ -94,11 +104,9 @@ function extractValue<T>(obj: any, possibleKeys: string[]): T | undefined {
 function processIaResponse(iaResponse: any): Messages {
   const result: Messages = {};
 
-  // Extraer el ID principal y uniqueId. Ya que extractValue busca el primero,
-  // aquí estamos rellenando solo los campos a los que apunta.
-  result.id = extractValue<string>(iaResponse, ORIGINAL_USER_IDENTIFIER_KEYS as string[]);
-  // El uniqueId lo extraeremos de la misma forma, si existe y no es el mismo que 'id'
-  result.uniqueId = extractValue<string>(iaResponse, ORIGINAL_USER_IDENTIFIER_KEYS.filter(k => k !== 'id') as string[]);
+  // Extraer el ID principal y uniqueId, cada uno con sus propias claves
+  result.id = toIdentifier(extractValue(iaResponse, USER_ID_KEYS));
+  result.uniqueId = toIdentifier(extractValue(iaResponse, UNIQUE_ID_KEYS as string[]));
 
 
   // Para los campos de UserDisplay, extraemos uno por uno de sus posibles nombres
@@ -0,0 +1,153 @@
+import type { WSContext } from 'hono/ws'
+import type { WsSession } from './session'
+import { PROTOCOL_VERSION, type ServerEventType } from './protocol'
+
+export interface ConnectionMeta {
+  remoteAddress?: string
+}
+
+// Información pública de una conexión (GET /api/ws/clients)
+export interface ConnectionInfo {
+  id: string
+  version: number
+  remoteAddress?: string
+  connectedAt: Date
+  lastSeen: Date
+  topics: ServerEventType[]
+}
+
+interface Connection {
+  id: string
+  ws: WSContext
+  session: WsSession
+  meta: ConnectionMeta
+  connectedAt: Date
+  lastSeen: Date
+}
+
+export interface HeartbeatOptions {
+  intervalMs: number // Cada cuánto se envía el ping
+  timeoutMs: number  // Tiempo sin respuesta tras el que se descarta la conexión
+}
+
+const DEFAULT_HEARTBEAT: HeartbeatOptions = {
+  intervalMs: 30 * 1000,
+  timeoutMs: 75 * 1000,
+}
+
+/**
+ * Lleva el registro de los sockets vivos y garantiza que al cerrarse
+ * (o fallar) se eliminan sus suscripciones al Emitter.
+ */
+export class ConnectionManager {
+  private connections = new Map<string, Connection>()
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private heartbeat: HeartbeatOptions
+
+  constructor(heartbeat: Partial<HeartbeatOptions> = {}) {
+    this.heartbeat = { ...DEFAULT_HEARTBEAT, ...heartbeat }
+  }
+
+  /**
+   * Registra una conexión ya abierta
+   * @returns El id asignado
+   */
+  add(ws: WSContext, session: WsSession, meta: ConnectionMeta = {}): string {
+    const id = crypto.randomUUID()
+    const now = new Date()
+    this.connections.set(id, { id, ws, session, meta, connectedAt: now, lastSeen: now })
+    this.startHeartbeat()
+    return id
+  }
+
+  /**
+   * Elimina una conexión y sus suscripciones. Es seguro llamarlo varias veces.
+   */
+  remove(id: string): boolean {
+    const connection = this.connections.get(id)
+    if (!connection) return false
+    connection.session.dispose()
+    this.connections.delete(id)
+    if (this.connections.size === 0) this.stopHeartbeat()
+    return true
+  }
+
+  /**
+   * Marca actividad del cliente (cualquier mensaje cuenta)
+   */
+  touch(id: string): void {
+    const connection = this.connections.get(id)
+    if (connection) connection.lastSeen = new Date()
+  }
+
+  size(): number {
+    return this.connections.size
+  }
+
+  list(): ConnectionInfo[] {
+    return Array.from(this.connections.values()).map(connection => ({
+      id: connection.id,
+      version: connection.session.version,
+      remoteAddress: connection.meta.remoteAddress,
+      connectedAt: connection.connectedAt,
+      lastSeen: connection.lastSeen,
+      topics: connection.session.getSubscriptions(),
+    }))
+  }
+
+  /**
+   * Descarta las conexiones cerradas y las que no respondieron al ping a tiempo.
+   * Los clientes antiguos (v0) no responden pings, así que solo se comprueba su estado.
+   * @returns Cantidad de conexiones eliminadas
+   */
+  prune(now: number = Date.now()): number {
+    let removed = 0
+    for (const connection of Array.from(this.connections.values())) {
+      const closed = connection.ws.readyState !== 1
+      const expired = connection.session.version !== 0 && now - connection.lastSeen.getTime() > this.heartbeat.timeoutMs
+      if (closed || expired) {
+        if (!closed) {
+          try {
+            connection.ws.close(1001, 'Heartbeat timeout')
+          } catch (e) {
+            // El socket ya no está disponible
+          }
+        }
+        this.remove(connection.id)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  /**
+   * Envía un ping a todos los clientes y descarta los que no responden
+   */
+  ping(): void {
+    this.prune()
+    for (const connection of this.connections.values()) {
+      try {
+        if (connection.session.version !== 0) {
+          connection.ws.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'ping', time: Date.now() }))
+        }
+        // Ping a nivel de protocolo si el socket lo soporta (Bun), mantiene viva la conexión
+        (connection.ws.raw as { ping?: () => void } | undefined)?.ping?.()
+      } catch (e) {
+        this.remove(connection.id)
+      }
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return
+    this.heartbeatTimer = setInterval(() => this.ping(), this.heartbeat.intervalMs)
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    this.heartbeatTimer = null
+  }
+}
+
+// Instancia singleton
+export const connectionManager = new ConnectionManager()
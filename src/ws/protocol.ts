@@ -0,0 +1,156 @@
+// Protocolo JSON del WebSocket /ws
+// Servidor => cliente: eventos ('text', 'audio', 'rejected', ...) y respuestas ('hello', 'pong', 'ack', 'error')
+// Cliente => servidor: comandos ('skip', 'pause', 'resume', 'clear', 'subscribe', 'ping', 'pong', 'played')
+// El servidor envía 'ping' periódicamente; los clientes v1 deben responder con 'pong'
+
+import type { AudioFrame, PlaybackState } from '../services/playbackQueue';
+import type { ttsOptions } from '../services/tts';
+import type { ChatEvent } from '../events/chatEvent';
+import type { Message, MessageEvictedEvent } from '../services/messageQueue';
+
+export const PROTOCOL_VERSION = 1;
+
+// Eventos del Emitter que se pueden reenviar a los clientes
+export const SERVER_EVENTS = ['text', 'audio', 'queue-update', 'config-changed', 'filter-changed', 'rejected', 'chat-event', 'message-evicted', 'pending'] as const;
+export type ServerEventType = typeof SERVER_EVENTS[number];
+
+export const CLIENT_COMMANDS = ['skip', 'pause', 'resume', 'clear', 'subscribe', 'ping', 'pong', 'played'] as const;
+export type ClientCommandType = typeof CLIENT_COMMANDS[number];
+
+export type RequestId = string | number;
+
+// Mensaje del webhook que no se leyó (para el panel)
+export interface RejectedEvent {
+  user?: string;
+  userKey?: string;
+  text?: string;
+  reason: string;
+  message: string;
+  event?: ChatEvent;
+}
+
+// Evento del webhook aceptado: text es lo que se muestra y spoken lo que se lee
+export interface AcceptedChatEvent {
+  event: ChatEvent;
+  text: string;
+  spoken: string;
+  voice?: string;
+}
+
+export type ClientCommand =
+  | { type: 'skip'; id?: string; requestId?: RequestId }
+  | { type: 'pause'; requestId?: RequestId }
+  | { type: 'resume'; requestId?: RequestId }
+  | { type: 'clear'; requestId?: RequestId }
+  | { type: 'subscribe'; events: ServerEventType[]; requestId?: RequestId }
+  | { type: 'ping'; requestId?: RequestId }
+  | { type: 'pong'; requestId?: RequestId }
+  | { type: 'played'; id: string; requestId?: RequestId };
+
+export type ErrorCode = 'invalid_json' | 'invalid_payload' | 'unknown_command' | 'unsupported_version' | 'not_found';
+
+type Frame<T extends string, P = {}> = { v: typeof PROTOCOL_VERSION; type: T } & P;
+
+export type ServerFrame =
+  | Frame<'hello', { version: number; events: readonly ServerEventType[]; subscribed: ServerEventType[] }>
+  | Frame<'text', { text: string }>
+  | Frame<'audio', Omit<AudioFrame, 'type'>>
+  | Frame<'queue-update', PlaybackState>
+  | Frame<'config-changed', { config: ttsOptions }>
+  | Frame<'filter-changed', { data: unknown }>
+  | Frame<'rejected', RejectedEvent>
+  | Frame<'chat-event', AcceptedChatEvent>
+  | Frame<'message-evicted', MessageEvictedEvent>
+  | Frame<'pending', { message: Message }>
+  | Frame<'subscribed', { events: ServerEventType[]; requestId?: RequestId }>
+  | Frame<'ping', { time: number }>
+  | Frame<'pong', { time: number; requestId?: RequestId }>
+  | Frame<'ack', { command: ClientCommandType; requestId?: RequestId }>
+  | Frame<'error', { code: ErrorCode; message: string; requestId?: RequestId }>;
+
+export type ParseResult =
+  | { ok: true; command: ClientCommand }
+  | { ok: false; code: ErrorCode; message: string; requestId?: RequestId };
+
+function isServerEvent(value: unknown): value is ServerEventType {
+  return typeof value === 'string' && (SERVER_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Valida un mensaje recibido del cliente y lo convierte en comando
+ */
+export function parseClientCommand(raw: unknown): ParseResult {
+  let data: any;
+  try {
+    data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch (e) {
+    return { ok: false, code: 'invalid_json', message: 'Message is not valid JSON' };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, code: 'invalid_payload', message: 'Message must be a JSON object' };
+  }
+
+  const requestId: RequestId | undefined =
+    typeof data.requestId === 'string' || typeof data.requestId === 'number' ? data.requestId : undefined;
+  const fail = (code: ErrorCode, message: string): ParseResult => ({ ok: false, code, message, requestId });
+
+  if (data.v !== undefined && data.v !== PROTOCOL_VERSION) {
+    return fail('unsupported_version', `Unsupported protocol version ${data.v}`);
+  }
+  if (typeof data.type !== 'string') {
+    return fail('invalid_payload', 'Missing "type"');
+  }
+  if (!(CLIENT_COMMANDS as readonly string[]).includes(data.type)) {
+    return fail('unknown_command', `Unknown command "${data.type}"`);
+  }
+
+  switch (data.type as ClientCommandType) {
+    case 'skip':
+      if (data.id !== undefined && typeof data.id !== 'string') return fail('invalid_payload', '"id" must be a string');
+      return { ok: true, command: { type: 'skip', id: data.id, requestId } };
+    case 'played':
+      if (typeof data.id !== 'string') return fail('invalid_payload', '"id" is required');
+      return { ok: true, command: { type: 'played', id: data.id, requestId } };
+    case 'subscribe': {
+      if (!Array.isArray(data.events)) return fail('invalid_payload', '"events" must be an array');
+      const unknown = data.events.filter((e: unknown) => !isServerEvent(e));
+      if (unknown.length > 0) return fail('invalid_payload', `Unknown events: ${unknown.join(', ')}`);
+      return { ok: true, command: { type: 'subscribe', events: Array.from(new Set<ServerEventType>(data.events)), requestId } };
+    }
+    case 'pause':
+    case 'resume':
+    case 'clear':
+    case 'ping':
+    case 'pong':
+      return { ok: true, command: { type: data.type, requestId } };
+  }
+}
+
+/**
+ * Convierte un evento del Emitter en el frame que recibe el cliente
+ */
+export function toServerFrame(event: ServerEventType, data: any): ServerFrame {
+  switch (event) {
+    case 'text':
+      return { v: PROTOCOL_VERSION, type: 'text', text: String(data) };
+    case 'audio': {
+      const { type, ...audio } = data as AudioFrame;
+      return { v: PROTOCOL_VERSION, type: 'audio', ...audio };
+    }
+    case 'queue-update':
+      return { v: PROTOCOL_VERSION, type: 'queue-update', ...(data as PlaybackState) };
+    case 'config-changed':
+      return { v: PROTOCOL_VERSION, type: 'config-changed', config: data as ttsOptions };
+    case 'filter-changed':
+      return { v: PROTOCOL_VERSION, type: 'filter-changed', data };
+    case 'rejected':
+      return { v: PROTOCOL_VERSION, type: 'rejected', ...(data as RejectedEvent) };
+    case 'chat-event':
+      return { v: PROTOCOL_VERSION, type: 'chat-event', ...(data as AcceptedChatEvent) };
+    case 'message-evicted':
+      return { v: PROTOCOL_VERSION, type: 'message-evicted', ...(data as MessageEvictedEvent) };
+    case 'pending':
+      return { v: PROTOCOL_VERSION, type: 'pending', message: data as Message };
+  }
+}
@@ -0,0 +1,193 @@
+import type { WSContext, WSEvents } from 'hono/ws'
+import { emitter } from '../Emitter'
+import { playbackQueue } from '../services/playbackQueue'
+import { messageQueue } from '../services/messageQueue'
+import { connectionManager, type ConnectionMeta } from './connections'
+import {
+  PROTOCOL_VERSION,
+  SERVER_EVENTS,
+  parseClientCommand,
+  toServerFrame,
+  type ClientCommand,
+  type ServerEventType,
+  type ServerFrame,
+} from './protocol'
+
+// 0 = clientes antiguos (texto plano + frames de audio), 1 = protocolo JSON versionado
+export type ProtocolVersion = 0 | typeof PROTOCOL_VERSION
+
+const LEGACY_EVENTS: ServerEventType[] = ['text', 'audio']
+
+/**
+ * Una conexión WebSocket: reenvía los eventos a los que está suscrita
+ * y ejecuta los comandos que envía el cliente.
+ */
+export class WsSession {
+  private subscriptions: Set<ServerEventType>
+  // Solo se escucha en el Emitter lo suscrito: así listenerCount('audio') cuenta los overlays reales
+  private unsubscribers = new Map<ServerEventType, () => void>()
+
+  // Se invoca cuando no se puede escribir en el socket
+  onSendError: ((error: unknown) => void) | null = null
+
+  constructor(private ws: WSContext, readonly version: ProtocolVersion = PROTOCOL_VERSION) {
+    this.subscriptions = new Set(version === 0 ? LEGACY_EVENTS : SERVER_EVENTS)
+  }
+
+  /**
+   * Se suscribe al Emitter y saluda al cliente
+   */
+  open(): void {
+    this.listen()
+    if (this.version !== 0) {
+      this.send({ v: PROTOCOL_VERSION, type: 'hello', version: PROTOCOL_VERSION, events: SERVER_EVENTS, subscribed: this.getSubscriptions() })
+    }
+    playbackQueue.pump()
+  }
+
+  /**
+   * Quita las suscripciones al Emitter
+   */
+  dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers.clear()
+  }
+
+  getSubscriptions(): ServerEventType[] {
+    return Array.from(this.subscriptions)
+  }
+
+  /**
+   * Envía un evento al cliente si está suscrito a él
+   */
+  deliver(event: ServerEventType, data: any): void {
+    if (!this.subscriptions.has(event)) return
+    if (this.version === 0) {
+      // Los overlays antiguos esperan el texto plano y el frame de audio sin versión
+      this.sendRaw(event === 'text' ? String(data) : JSON.stringify(data))
+      return
+    }
+    this.send(toServerFrame(event, data))
+  }
+
+  handleMessage(raw: unknown): void {
+    const parsed = parseClientCommand(typeof raw === 'string' ? raw : String(raw))
+    if (!parsed.ok) {
+      if (this.version === 0) {
+        this.sendRaw('Hello from server!')
+        return
+      }
+      this.send({ v: PROTOCOL_VERSION, type: 'error', code: parsed.code, message: parsed.message, requestId: parsed.requestId })
+      return
+    }
+    this.execute(parsed.command)
+  }
+
+  private execute(command: ClientCommand): void {
+    const { requestId } = command
+    switch (command.type) {
+      case 'ping':
+        this.send({ v: PROTOCOL_VERSION, type: 'pong', time: Date.now(), requestId })
+        return
+      case 'pong':
+        // Respuesta al ping del servidor; la actividad ya quedó registrada
+        return
+      case 'subscribe':
+        this.subscriptions = new Set(command.events)
+        this.listen()
+        this.send({ v: PROTOCOL_VERSION, type: 'subscribed', events: this.getSubscriptions(), requestId })
+        // Un overlay que empieza a escuchar audio puede recibir lo que espera
+        if (this.subscriptions.has('audio')) playbackQueue.pump()
+        return
+      case 'played':
+      case 'skip': {
+        const ok = command.type === 'played'
+          ? playbackQueue.ack(command.id, 'played')
+          : playbackQueue.skip(command.id)
+        if (!ok) {
+          this.send({ v: PROTOCOL_VERSION, type: 'error', code: 'not_found', message: 'No pending audio with that id', requestId })
+          return
+        }
+        break
+      }
+      case 'pause':
+        playbackQueue.pause()
+        break
+      case 'resume':
+        playbackQueue.resume()
+        break
+      case 'clear':
+        // También lo que espera en la cola de mensajes: si no, volvería a sonar enseguida
+        playbackQueue.clear()
+        messageQueue.skipPlayback()
+        break
+    }
+    this.send({ v: PROTOCOL_VERSION, type: 'ack', command: command.type, requestId })
+  }
+
+  // Ajusta los listeners del Emitter a las suscripciones actuales
+  private listen(): void {
+    for (const [event, unsubscribe] of this.unsubscribers) {
+      if (this.subscriptions.has(event)) continue
+      unsubscribe()
+      this.unsubscribers.delete(event)
+    }
+    for (const event of this.subscriptions) {
+      if (!this.unsubscribers.has(event)) this.unsubscribers.set(event, emitter.on(event, (data) => this.deliver(event, data)))
+    }
+  }
+
+  private send(frame: ServerFrame): void {
+    // Los clientes antiguos no entienden las respuestas del protocolo
+    if (this.version === 0) return
+    this.sendRaw(JSON.stringify(frame))
+  }
+
+  private sendRaw(data: string): void {
+    if (this.ws.readyState !== 1) return
+    try {
+      this.ws.send(data)
+    } catch (error) {
+      this.onSendError?.(error)
+    }
+  }
+}
+
+/**
+ * Crea los manejadores de upgradeWebSocket para una nueva conexión.
+ * La conexión se registra en connectionManager y se elimina al cerrarse o fallar.
+ */
+export function createWsEvents(version: ProtocolVersion = PROTOCOL_VERSION, meta: ConnectionMeta = {}): WSEvents {
+  let connectionId: string | null = null
+  const release = () => {
+    if (connectionId) connectionManager.remove(connectionId)
+    connectionId = null
+  }
+  let session: WsSession | null = null
+  return {
+    onOpen: (event, ws) => {
+      console.log('Connection opened', meta.remoteAddress ?? '')
+      session = new WsSession(ws, version)
+      session.onSendError = (error) => {
+        console.warn('Error sending to WebSocket client:', error)
+        release()
+      }
+      connectionId = connectionManager.add(ws, session, meta)
+      session.open()
+    },
+    onMessage: (event, ws) => {
+      if (connectionId) connectionManager.touch(connectionId)
+      session?.handleMessage(event.data)
+    },
+    onClose: () => {
+      console.log('Connection closed')
+      release()
+      session = null
+    },
+    onError: (event) => {
+      console.warn('WebSocket error:', event)
+      release()
+      session = null
+    },
+  }
+}
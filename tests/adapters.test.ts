@@ -0,0 +1,161 @@
+import { describe, it, expect } from "bun:test";
+import { readFileSync } from "fs";
+import path from "path";
+import { detectAdapter, normalizeWebhook } from "../src/adapters/registry";
+import { toMessageFields } from "../src/events/chatEvent";
+import type { WebhookRequest } from "../src/adapters/types";
+import { contentTEXT, processIaResponse } from "../src/utils";
+import { createHmac } from "crypto";
+import { TwitchAdapter, verifyTwitchSignature } from "../src/adapters/twitch";
+
+function fixture(name: string): any {
+  return JSON.parse(readFileSync(path.join(import.meta.dir, "fixtures", `${name}.json`), "utf8"));
+}
+
+function request(body: unknown, headers: Record<string, string> = {}, query: Record<string, string> = {}): WebhookRequest {
+  return { body, headers, query };
+}
+
+describe("Webhook adapters", () => {
+  it("detects platforms by shape", () => {
+    expect(detectAdapter(request(fixture("tiktok-chat"))).platform).toBe("tiktok");
+    expect(detectAdapter(request(fixture("twitch-chat"))).platform).toBe("twitch");
+    expect(detectAdapter(request(fixture("youtube-chat"))).platform).toBe("youtube");
+    expect(detectAdapter(request(fixture("kick-chat"))).platform).toBe("kick");
+    expect(detectAdapter(request(fixture("generic"))).platform).toBe("generic");
+    expect(detectAdapter(request({ user: "x", msg: "y" })).platform).toBe("generic");
+  });
+
+  it("detects platforms by header and query", () => {
+    const body = { sender: { username: "a" }, content: "hola" };
+    expect(detectAdapter(request(body, { "kick-event-type": "chat.message.sent" })).platform).toBe("kick");
+    expect(detectAdapter(request(body, { "twitch-eventsub-message-type": "notification" })).platform).toBe("twitch");
+    expect(detectAdapter(request(fixture("tiktok-chat"), {}, { platform: "generic" })).platform).toBe("generic");
+    expect(detectAdapter(request(fixture("tiktok-chat"), { "x-platform": "unknown" })).platform).toBe("tiktok");
+  });
+
+  it("normalizes TikTok chat, gifts and social events", () => {
+    expect(normalizeWebhook(request(fixture("tiktok-chat")))).toEqual({
+      type: "chat",
+      platform: "tiktok",
+      eventName: "chat",
+      user: {
+        id: "7012345678901234567",
+        username: "ana_live",
+        name: "Ana 🌸",
+        avatar: "https://p16-sign.tiktokcdn.com/ana.webp",
+        badges: ["moderator", "friend", "privilege"],
+      },
+      text: "hola a todos",
+    });
+
+    const gift = normalizeWebhook(request(fixture("tiktok-gift")));
+    expect(gift).toMatchObject({
+      type: "gift",
+      user: { id: "7012345678901234567", username: "ana_live", name: "Ana" },
+      gift: { id: "5655", name: "Rose", count: 5 },
+      amount: { value: 5, currency: "diamonds" },
+    });
+
+    expect(normalizeWebhook(request(fixture("tiktok-social")))).toMatchObject({ type: "follow", eventName: "follow" });
+  });
+
+  it("normalizes Twitch EventSub notifications", () => {
+    const chat = normalizeWebhook(request(fixture("twitch-chat")));
+    expect(chat).toMatchObject({
+      platform: "twitch",
+      eventName: "chat",
+      user: { id: "4145994", username: "viewer32", name: "Viewer32", badges: ["moderator", "subscriber"] },
+      text: "Hi chat",
+    });
+
+    const cheer = normalizeWebhook(request(fixture("twitch-cheer")));
+    expect(cheer).toMatchObject({ type: "gift", eventName: "gift", text: "pogchamp", user: { username: "cool_user" } });
+    expect(cheer.amount).toEqual({ value: 1000, currency: "bits" });
+  });
+
+  it("normalizes YouTube live chat messages", () => {
+    expect(normalizeWebhook(request(fixture("youtube-chat")))).toMatchObject({
+      platform: "youtube",
+      eventName: "chat",
+      user: { id: "UCx1", name: "Carla", badges: ["member"] },
+      text: "buenas tardes",
+    });
+
+    const superchat = normalizeWebhook(request(fixture("youtube-superchat")));
+    expect(superchat).toMatchObject({ type: "chat", eventName: "superchat", text: "saludos desde México" });
+    expect(superchat.amount).toEqual({ value: 5, currency: "USD" });
+  });
+
+  it("normalizes Kick webhooks", () => {
+    expect(normalizeWebhook(request(fixture("kick-chat"), { "kick-event-type": "chat.message.sent" }))).toMatchObject({
+      platform: "kick",
+      eventName: "chat",
+      user: { id: "987654321", username: "sender_name", name: "Sender_Name", badges: ["moderator", "sub_gifter"] },
+      text: "qué buen directo",
+    });
+
+    const kicks = normalizeWebhook(request(fixture("kick-kicks-gifted"), { "kick-event-type": "kicks.gifted" }));
+    expect(kicks).toMatchObject({ eventName: "gift", text: "vamos!", gift: { name: "Full Send" } });
+    expect(kicks.amount).toEqual({ value: 100, currency: "kicks" });
+  });
+
+  it("keeps id and uniqueId apart in the generic extractor", () => {
+    const fields = processIaResponse(fixture("generic"));
+    expect(fields.id).toBe("42");
+    expect(fields.uniqueId).toBe("maria_22");
+
+    const event = normalizeWebhook(request(fixture("generic")));
+    expect(event).toMatchObject({ platform: "generic", eventName: "chat", user: { id: "42", username: "maria_22", name: "María" } });
+    expect(contentTEXT(toMessageFields(event))).toEqual({ user: "María", msg: "hola desde otro overlay" });
+  });
+});
+
+describe("Twitch EventSub webhooks", () => {
+  const secret = "s3cr3t-de-prueba";
+
+  // Petición como las que envía Twitch, firmada con el secreto indicado
+  function signed(body: unknown, type: string, signWith = secret, timestamp = new Date().toISOString()): WebhookRequest {
+    const rawBody = JSON.stringify(body);
+    const id = "msg-1";
+    const signature = `sha256=${createHmac("sha256", signWith).update(id + timestamp + rawBody).digest("hex")}`;
+    return {
+      body,
+      rawBody,
+      query: {},
+      headers: {
+        "twitch-eventsub-message-id": id,
+        "twitch-eventsub-message-timestamp": timestamp,
+        "twitch-eventsub-message-signature": signature,
+        "twitch-eventsub-message-type": type,
+      },
+    };
+  }
+
+  it("verifies the HMAC signature and the message age", () => {
+    expect(verifyTwitchSignature(signed(fixture("twitch-chat"), "notification"), secret)).toBeTrue();
+    expect(verifyTwitchSignature(signed(fixture("twitch-chat"), "notification", "otro"), secret)).toBeFalse();
+    const old = new Date(Date.now() - 11 * 60 * 1000).toISOString();
+    expect(verifyTwitchSignature(signed(fixture("twitch-chat"), "notification", secret, old), secret)).toBeFalse();
+
+    const tampered = signed(fixture("twitch-chat"), "notification");
+    tampered.rawBody = tampered.rawBody!.replace("}", ',"extra":1}');
+    expect(verifyTwitchSignature(tampered, secret)).toBeFalse();
+  });
+
+  it("answers the verification challenge and lets notifications through", () => {
+    const adapter = new TwitchAdapter(secret);
+    const challenge = { challenge: "pogchamp-kappa-360noscope", subscription: { type: "channel.chat.message", status: "webhook_callback_verification_pending" } };
+    expect(adapter.handshake(signed(challenge, "webhook_callback_verification"))).toEqual({ status: 200, body: "pogchamp-kappa-360noscope" });
+    expect(adapter.handshake(signed({ subscription: { status: "authorization_revoked" } }, "revocation"))).toEqual({ status: 204 });
+    expect(adapter.handshake(signed(fixture("twitch-chat"), "notification"))).toBeUndefined();
+    expect(adapter.handshake(signed(fixture("twitch-chat"), "notification", "otro"))?.status).toBe(403);
+  });
+
+  it("rejects direct EventSub requests without a configured secret", () => {
+    const adapter = new TwitchAdapter("");
+    expect(adapter.handshake(signed(fixture("twitch-chat"), "notification"))?.status).toBe(403);
+    // Reenviados sin las cabeceras de Twitch: se procesan como el resto de plataformas
+    expect(adapter.handshake(request(fixture("twitch-chat")))).toBeUndefined();
+  });
+});
@@ -34,7 +34,8 @@ describe("HTTP API (Hono)", () => {
 
     // Import the app AFTER changing CWD so messageQueue writes to the isolated path
     const mod = await import("../src/index");
-    app = (mod as any).default;
+    app = mod.app;
+    await (await import("../src/services/messageQueue")).messageQueueReady;
   });
 
   afterAll(() => {
@@ -190,4 +191,237 @@ describe("HTTP API (Hono)", () => {
     expect(unread.length).toBe(1);
     expect(unread[0].isRead).toBeFalse();
   });
-});
\ No newline at end of file
+});
+describe("Webhook and message queue", () => {
+  let counter = 0;
+
+  beforeAll(async () => {
+    if (!app) {
+      const mod = await import("../src/index");
+      app = mod.app;
+    }
+  });
+
+  beforeEach(async () => {
+    await app.request("/messages", { method: "DELETE" });
+  });
+
+  // Textos y usuarios distintos en cada mensaje: el deduplicador y el limitador no intervienen
+  function webhook(message = `mensaje del webhook ${++counter}`) {
+    return app.request("/webhook", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ eventName: "chat", data: { userId: counter, uniqueId: `webhook_${counter}`, username: "Webhook", message } }),
+    });
+  }
+
+  it("POST /webhook stores the message that /messages/next returns", async () => {
+    const res = await webhook("hola desde el webhook");
+    const accepted = await res.json();
+    expect(accepted.ok).toBeTrue();
+    expect(accepted.messageId).toBeString();
+    // Sin overlays escuchando no se saca nada para reproducir
+    expect(accepted.playbackId).toBeUndefined();
+
+    const next = await (await app.request("/messages/next")).json();
+    expect(next.id).toBe(accepted.messageId);
+    expect(next.eventName).toBe("chat");
+    expect(next.text).toContain("hola desde el webhook");
+    expect(next.filter).toMatchObject({ isBlocked: false, reason: "none" });
+    expect((await app.request("/messages/next")).status).toBe(404);
+  });
+
+  it("POST /webhook refuses direct Twitch EventSub requests without a secret", async () => {
+    const res = await app.request("/webhook", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "twitch-eventsub-message-type": "webhook_callback_verification",
+        "twitch-eventsub-message-signature": "sha256=00",
+      },
+      body: JSON.stringify({ challenge: "abc", subscription: { type: "channel.chat.message" } }),
+    });
+    expect(res.status).toBe(403);
+    expect(await res.text()).toBe("TWITCH_EVENTSUB_SECRET is not configured");
+  });
+
+  it("playback reads the message queue with its edits and order", async () => {
+    const { emitter } = await import("../src/Emitter");
+    const { playbackQueue } = await import("../src/services/playbackQueue");
+    const { ttsRegistry } = await import("../src/services/providers/registry");
+    const { TTS_Config } = await import("../src/services/tts");
+    const originalProvider = TTS_Config.ttsprovider;
+    ttsRegistry.register({
+      name: "fake-webhook",
+      formats: [{ id: "mp3", mimeType: "audio/mpeg" }],
+      async synthesize(text: string, voice: string) {
+        return { provider: "fake-webhook", voice, format: this.formats[0], audio: new TextEncoder().encode(text) };
+      },
+      async listVoices() {
+        return [];
+      },
+    });
+    TTS_Config.ttsprovider = "fake-webhook";
+    const frames: any[] = [];
+    const off = emitter.on("audio", (frame) => frames.push(frame));
+    try {
+      // En pausa la reproducción no saca nada de la cola
+      playbackQueue.pause();
+      const first = await (await webhook()).json();
+      const second = await (await webhook()).json();
+      expect((await (await app.request("/messages/size")).json()).unread).toBe(2);
+
+      await app.request(`/messages/${second.messageId}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ text: "texto corregido por un moderador" }),
+      });
+      await app.request(`/messages/${second.messageId}/move`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ position: "top" }),
+      });
+
+      playbackQueue.resume();
+      for (let i = 0; i < 100 && frames.length === 0; i++) await Bun.sleep(1);
+      expect(frames[0].text).toBe("texto corregido por un moderador");
+      expect(playbackQueue.findByMessage(second.messageId)?.status).toBe("playing");
+      // El siguiente ya se sacó de la cola para sintetizarlo mientras suena el actual
+      expect(playbackQueue.findByMessage(first.messageId)).toBeDefined();
+      // La reproducción no marca nada como leído: GET /messages/next sigue viéndolos
+      expect((await (await app.request("/messages/next")).json()).id).toBe(second.messageId);
+    } finally {
+      off();
+      playbackQueue.clear();
+      TTS_Config.ttsprovider = originalProvider;
+      ttsRegistry.unregister("fake-webhook");
+    }
+  });
+});
+
+describe("TTS config API", () => {
+  beforeAll(async () => {
+    if (!app) {
+      const mod = await import("../src/index");
+      app = mod.app;
+    }
+  });
+
+  it("PUT /api/tts/config updates prosody and GET returns it", async () => {
+    const resPut = await app.request("/api/tts/config", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ options: { rate: 10, pitch: "-5Hz" } }),
+    });
+    expect(resPut.status).toBe(200);
+    const updated = await resPut.json();
+    expect(updated.options.rate).toBe("+10%");
+    expect(updated.options.pitch).toBe("-5Hz");
+
+    const resGet = await app.request("/api/tts/config");
+    const config = await resGet.json();
+    expect(config.options.rate).toBe("+10%");
+  });
+
+  it("PUT /api/tts/config rejects out of range prosody", async () => {
+    const res = await app.request("/api/tts/config", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ options: { volume: 500 } }),
+    });
+    expect(res.status).toBe(400);
+    const payload = await res.json();
+    expect(payload.details[0].field).toBe("options.volume");
+  });
+});
+
+describe("Binary audio API", () => {
+  const fakeProvider = {
+    name: "fake",
+    formats: [{ id: "mp3", mimeType: "audio/mpeg" }],
+    async synthesize(text: string, voice: string) {
+      return {
+        provider: "fake",
+        voice,
+        format: this.formats[0],
+        audio: new TextEncoder().encode(`${voice}:${text}`),
+      };
+    },
+    async listVoices() {
+      return [];
+    },
+  };
+
+  beforeAll(async () => {
+    if (!app) {
+      const mod = await import("../src/index");
+      app = mod.app;
+    }
+    const { ttsRegistry } = await import("../src/services/providers/registry");
+    ttsRegistry.register(fakeProvider);
+    await app.request("/api/tts/config", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ttsprovider: "fake" }),
+    });
+  });
+
+  afterAll(async () => {
+    await app.request("/api/tts/config", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ttsprovider: "ttsEdge" }),
+    });
+    const { ttsRegistry } = await import("../src/services/providers/registry");
+    ttsRegistry.unregister("fake");
+  });
+
+  it("GET /api/tts/audio returns raw audio with length", async () => {
+    const res = await app.request("/api/tts/audio?text=hola%20mundo&voice=v1");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("audio/mpeg");
+    expect(res.headers.get("content-length")).toBe(String("v1:hola mundo".length));
+    expect(await res.text()).toBe("v1:hola mundo");
+  });
+
+  it("GET /api/tts/audio honours Range requests", async () => {
+    const res = await app.request("/api/tts/audio?text=hola%20mundo&voice=v1", {
+      headers: { range: "bytes=0-1" },
+    });
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe(`bytes 0-1/${"v1:hola mundo".length}`);
+    expect(await res.text()).toBe("v1");
+  });
+
+  it("GET /api/tts/audio answers 416 to unsatisfiable ranges", async () => {
+    const size = "v1:hola mundo".length;
+    const res = await app.request("/api/tts/audio?text=hola%20mundo&voice=v1", {
+      headers: { range: `bytes=${size}-` },
+    });
+    expect(res.status).toBe(416);
+    expect(res.headers.get("content-range")).toBe(`bytes */${size}`);
+
+    const suffix = await app.request("/api/tts/audio?text=hola%20mundo&voice=v1", {
+      headers: { range: "bytes=-5" },
+    });
+    expect(suffix.status).toBe(206);
+    expect(await suffix.text()).toBe("mundo");
+  });
+
+  it("GET /api/tts/audio?stream=true streams the audio without ranges", async () => {
+    const res = await app.request("/api/tts/audio?text=hola%20mundo&voice=v2&stream=true");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("audio/mpeg");
+    expect(res.headers.get("accept-ranges")).toBe("none");
+    expect(await res.text()).toBe("v2:hola mundo");
+  });
+
+  it("POST /api/tts/audio rejects unsupported formats", async () => {
+    const res = await app.request("/api/tts/audio", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ text: "hola mundo", format: "flac" }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+import { createChatEvent, validateChatEvent, toMessageFields } from "../src/events/chatEvent";
+
+const user = { id: "1", username: "ana_live", name: "Ana", badges: ["moderator"] };
+
+describe("ChatEvent", () => {
+  it("derives the type from eventName", () => {
+    expect(createChatEvent({ platform: "tiktok", eventName: "Chat", user, text: "hola" })).toMatchObject({ type: "chat", eventName: "chat" });
+    expect(createChatEvent({ platform: "tiktok", eventName: "gift", user, gift: { name: "Rose", count: 2 } }).type).toBe("gift");
+    expect(createChatEvent({ platform: "tiktok", eventName: "like", user, likes: 15 })).toMatchObject({ type: "like", likes: 15 });
+    expect(createChatEvent({ platform: "twitch", eventName: "raid", user }).type).toBe("system");
+    // Sin los datos propios del tipo queda como evento de sistema
+    expect(createChatEvent({ platform: "tiktok", eventName: "chat", user }).type).toBe("system");
+    expect(createChatEvent({ platform: "tiktok", eventName: "gift", user }).type).toBe("system");
+  });
+
+  it("validates events received from clients", () => {
+    const valid = validateChatEvent({ type: "gift", user: { name: "Ana" }, gift: { name: "Rose" } });
+    expect(valid).toEqual({
+      ok: true,
+      event: {
+        type: "gift",
+        platform: "generic",
+        eventName: "gift",
+        user: { id: undefined, username: undefined, name: "Ana", avatar: undefined, badges: [] },
+        gift: { id: undefined, name: "Rose", count: 1 },
+      },
+    });
+
+    const invalid = validateChatEvent({ type: "chat", platform: "myspace", user: { badges: "mod" } });
+    expect(invalid.ok).toBeFalse();
+    if (!invalid.ok) {
+      expect(invalid.errors).toEqual([
+        "platform must be one of tiktok, twitch, youtube, kick, generic",
+        "user.badges must be an array of strings",
+        "text is required for chat events",
+      ]);
+    }
+    expect(validateChatEvent({ type: "party", user: {} }).ok).toBeFalse();
+    expect(validateChatEvent("chat").ok).toBeFalse();
+  });
+
+  it("maps events to the flat message fields", () => {
+    const event = createChatEvent({ platform: "kick", eventName: "chat", user, text: "hola" });
+    expect(toMessageFields(event)).toEqual({
+      id: "1",
+      uniqueId: "ana_live",
+      username: "ana_live",
+      nickname: "Ana",
+      displayName: "Ana",
+      comment: "hola",
+      message: "hola",
+      text: "hola",
+    });
+  });
+});
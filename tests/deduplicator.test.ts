@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, beforeEach } from "bun:test";
+import { mkdtemp } from "fs/promises";
+import path from "path";
+import { tmpdir } from "os";
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+import { Deduplicator, levenshtein, similarity } from "../src/filters/deduplicator";
+import { SpamCleaner } from "../src/filters/spam-cleaner";
+
+describe("SpamCleaner.normalize", () => {
+  const cleaner = new SpamCleaner();
+
+  it("strips punctuation, emoticons, accents and case", () => {
+    expect(cleaner.normalize("HOLA :)")).toBe("hola");
+    expect(cleaner.normalize("hola!!")).toBe("hola");
+    expect(cleaner.normalize("¿Qué   tal?")).toBe("que tal");
+  });
+
+  it("removes emotes, URLs and repeated letters", () => {
+    expect(cleaner.normalize("holaaaa [emote:123:kappa]")).toBe("hola");
+    expect(cleaner.normalize("mira https://example.com ya")).toBe("mira ya");
+  });
+
+  it("keeps repeated digits", () => {
+    expect(cleaner.normalize("envió 100 rosas")).toBe("envio 100 rosas");
+    expect(cleaner.normalize("llama")).toBe("llama");
+  });
+});
+
+describe("similarity", () => {
+  it("computes the edit distance", () => {
+    expect(levenshtein("kitten", "sitting")).toBe(3);
+    expect(levenshtein("", "abc")).toBe(3);
+  });
+
+  it("returns 1 for equal texts and 0 for empty ones", () => {
+    expect(similarity("hola", "hola")).toBe(1);
+    expect(similarity("hola", "", "trigram")).toBe(0);
+  });
+
+  it("scores close texts above distant ones with both algorithms", () => {
+    for (const algorithm of ["levenshtein", "trigram"] as const) {
+      const close = similarity("hola a todos", "hola a todo", algorithm);
+      const far = similarity("hola a todos", "buenas noches", algorithm);
+      expect(close).toBeGreaterThan(far);
+    }
+  });
+});
+
+describe("Deduplicator", () => {
+  let dedup: Deduplicator;
+  let storage: DataStorage<any>;
+  const t0 = Date.now();
+
+  beforeAll(async () => {
+    // Sin tocar temp/data/deduplicator.json del proyecto
+    const tempRoot = await mkdtemp(path.join(tmpdir(), "ttsdedup-"));
+    storage = new DataStorage(new JSONFile(path.join(tempRoot, "deduplicator.json")));
+  });
+
+  beforeEach(async () => {
+    dedup = new Deduplicator(storage);
+    await dedup.ready;
+    dedup.updateConfig({ enabled: true, windowSize: 3, windowSeconds: 30, threshold: 0.85, algorithm: "levenshtein" });
+  });
+
+  it("catches variations of the same message", () => {
+    dedup.add("hola", t0);
+    expect(dedup.check("hola!!", t0 + 1000).duplicate).toBeTrue();
+    const result = dedup.check("HOLA :)", t0 + 1000);
+    expect(result.duplicate).toBeTrue();
+    expect(result.match).toBe("hola");
+    expect(dedup.check("buenas noches", t0 + 1000).duplicate).toBeFalse();
+  });
+
+  it("does not treat announcements that differ only in the count as duplicates", () => {
+    dedup.add("Ana envió 100 rosas", t0);
+    expect(dedup.check("Ana envió 10 rosas", t0 + 1000).duplicate).toBeFalse();
+    expect(dedup.check("Ana envió 100 rosas!", t0 + 1000).duplicate).toBeTrue();
+  });
+
+  it("looks further back than the previous message", () => {
+    dedup.add("hola", t0);
+    dedup.add("que tal", t0 + 1);
+    expect(dedup.check("hola", t0 + 2).duplicate).toBeTrue();
+  });
+
+  it("forgets messages outside the window", () => {
+    dedup.add("hola", t0);
+    dedup.add("uno", t0 + 1);
+    dedup.add("dos", t0 + 2);
+    dedup.add("tres", t0 + 3);
+    expect(dedup.check("hola", t0 + 4).duplicate).toBeFalse();
+
+    dedup.clear();
+    dedup.add("hola", t0);
+    expect(dedup.check("hola", t0 + 31_000).duplicate).toBeFalse();
+  });
+
+  it("lets everything through when disabled", () => {
+    dedup.add("hola", t0);
+    dedup.updateConfig({ enabled: false });
+    expect(dedup.check("hola", t0 + 1).duplicate).toBeFalse();
+  });
+
+  it("validates config updates", () => {
+    expect(dedup.updateConfig({ threshold: 2 }).length).toBeGreaterThan(0);
+    expect(dedup.updateConfig({ algorithm: "nope" as any }).length).toBeGreaterThan(0);
+    expect(dedup.getConfig().threshold).toBe(0.85);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import type { DataStorage } from "json-obj-manager";
+import { createFilterRoutes } from "../src/routes/filters";
+import { FilterManager, type Filter } from "../src/filters/filters";
+import { createChatEvent } from "../src/events/chatEvent";
+import { createRequest, tempStorage } from "./helpers";
+
+describe("Filters API", () => {
+  let storage: DataStorage<Filter[]>;
+  let manager: FilterManager;
+  let request: ReturnType<typeof createRequest>;
+
+  beforeEach(async () => {
+    storage = tempStorage<Filter[]>("filters");
+    manager = new FilterManager(storage);
+    await manager.ready;
+    request = createRequest(createFilterRoutes(manager));
+  });
+
+  it("creates, reads, updates and deletes filters", async () => {
+    const created = await request("POST", "/", { blackList: ["malo"] });
+    expect(created.status).toBe(201);
+    const id = created.body.id;
+
+    const read = await request("GET", `/${id}`);
+    expect(read.body.blackList).toEqual(["malo"]);
+
+    const updated = await request("PUT", `/${id}`, { whiteList: ["bueno"], isActive: false });
+    expect(updated.status).toBe(200);
+    expect(updated.body.whiteList).toEqual(["bueno"]);
+    expect(updated.body.isActive).toBeFalse();
+
+    const toggled = await request("POST", `/${id}/toggle`);
+    expect(toggled.body.isActive).toBeTrue();
+
+    expect((await request("DELETE", `/${id}`)).body).toEqual({ ok: true });
+    expect((await request("GET", `/${id}`)).status).toBe(404);
+  });
+
+  it("adds and removes list items, including timed bans", async () => {
+    const { body: filter } = await request("POST", "/", {});
+    const banned = await request("POST", `/${filter.id}/blacklist`, { items: ["spam"], expiresInSeconds: 60 });
+    expect(banned.status).toBe(200);
+    expect(banned.body.blackList[0].item).toBe("spam");
+    expect(new Date(banned.body.blackList[0].expiresAt).getTime()).toBeGreaterThan(Date.now());
+    // Las parciales también se guardan con su modo
+    const partial = await request("POST", `/${filter.id}/blacklist`, { items: ["oferta"] });
+    expect(partial.body.blackList[1]).toEqual({ item: "oferta", expiresAt: null, mode: "partial", normalize: false });
+    const exact = await request("POST", "/check", { text: "gran oferta", options: { exactMatch: true } });
+    expect(exact.body.isBlocked).toBeFalse();
+
+    await request("POST", `/${filter.id}/whitelist`, { items: ["hola"] });
+    const removed = await request("DELETE", `/${filter.id}/blacklist`, { items: ["spam", "oferta"] });
+    expect(removed.body.blackList).toEqual([]);
+    expect(removed.body.whiteList).toEqual(["hola"]);
+  });
+
+  it("validates request bodies", async () => {
+    const { body: filter } = await request("POST", "/", {});
+    expect((await request("POST", `/${filter.id}/blacklist`, { items: [] })).status).toBe(400);
+    expect((await request("POST", `/${filter.id}/blacklist`, { items: ["x"], expiresInSeconds: -5 })).status).toBe(400);
+    expect((await request("POST", "/", { blackList: "nope" })).status).toBe(400);
+    expect((await request("POST", "/", "not json")).status).toBe(400);
+    expect((await request("PUT", `/${filter.id}`, { isActive: "yes" })).status).toBe(400);
+    expect((await request("POST", "/missing/whitelist", { items: ["x"] })).status).toBe(404);
+  });
+
+  it("returns the full CheckResult from a dry-run check", async () => {
+    const { body: filter } = await request("POST", "/", { blackList: ["prohibido"] });
+    const blocked = await request("POST", "/check", { text: "esto está prohibido" });
+    expect(blocked.body).toMatchObject({ isBlocked: true, reason: "blacklist", matchedBlackList: ["prohibido"] });
+    expect(blocked.body.matches[0]).toMatchObject({ filterId: filter.id, filterName: filter.name });
+
+    const exact = await request("POST", "/check", { text: "esto está prohibido", options: { exactMatch: true } });
+    expect(exact.body.isBlocked).toBeFalse();
+
+    expect((await request("POST", "/check", { options: {} })).status).toBe(400);
+    expect((await request("POST", "/check", { text: "x", options: { exactMatch: 1 } })).status).toBe(400);
+    expect(manager.getFilter(filter.id)!.blackList).toEqual(["prohibido"]);
+  });
+
+  it("gives each filter a unique id and name", async () => {
+    const a = await request("POST", "/", { name: "insultos" });
+    const b = await request("POST", "/", {});
+    expect(a.body.id).not.toBe(b.body.id);
+    expect(a.body).toMatchObject({ name: "insultos", scope: "text" });
+    expect((await request("POST", "/", { name: "Insultos" })).status).toBe(409);
+    expect((await request("PUT", `/${b.body.id}`, { name: "insultos" })).status).toBe(409);
+    expect((await request("PUT", `/${a.body.id}`, { name: "insultos", scope: "both" })).body.scope).toBe("both");
+    expect((await request("POST", "/", { scope: "everything" })).status).toBe(400);
+  });
+
+  it("applies filters only to their scope and reports which filter matched", async () => {
+    const { body: users } = await request("POST", "/", { name: "usuarios", scope: "user", blackList: ["troll"] });
+    await request("POST", "/", { name: "texto", blackList: ["spam"] });
+
+    const text = await request("POST", "/check", { text: "troll spam" });
+    expect(text.body.matches).toEqual([
+      expect.objectContaining({ filterName: "texto", list: "blacklist", item: "spam" }),
+    ]);
+
+    const user = await request("POST", "/check", { text: "troll_123", options: { target: "user" } });
+    expect(user.body.isBlocked).toBeTrue();
+    expect(user.body.matches[0]).toMatchObject({ filterId: users.id, filterName: "usuarios" });
+    expect((await request("POST", "/check", { text: "x", options: { target: "both" } })).status).toBe(400);
+  });
+
+  it("stores a match mode per blacklist entry and keeps it after reload", async () => {
+    const { body: filter } = await request("POST", "/", { name: "modos" });
+    await request("POST", `/${filter.id}/blacklist`, { items: ["ass"], mode: "word" });
+    await request("POST", `/${filter.id}/blacklist`, { items: ["palabra"], mode: "word", normalize: true });
+
+    expect((await request("POST", "/check", { text: "my class" })).body.isBlocked).toBeFalse();
+    const evasion = await request("POST", "/check", { text: "di p 4 l 4 b r 4" });
+    expect(evasion.body.matches[0]).toMatchObject({ item: "palabra", mode: "word" });
+
+    expect((await request("POST", `/${filter.id}/blacklist`, { items: ["(a"], mode: "regex" })).status).toBe(400);
+    expect((await request("POST", `/${filter.id}/blacklist`, { items: ["x"], mode: "fuzzy" })).status).toBe(400);
+
+    // Esperar a que se escriba el archivo y cargarlo en otra instancia
+    await Bun.sleep(50);
+    const reloaded = new FilterManager(storage);
+    await reloaded.ready;
+    expect(reloaded.getFilter(filter.id)!.blackList).toEqual([
+      expect.objectContaining({ item: "ass", mode: "word", normalize: false }),
+      expect.objectContaining({ item: "palabra", mode: "word", normalize: true }),
+    ]);
+  });
+
+  it("checks chat events by text and by user", () => {
+    manager.createFilter(["spam"], [], { name: "texto", scope: "text" });
+    manager.createFilter(["troll"], [], { name: "usuarios", scope: "user" });
+    const event = (text: string, name: string) =>
+      createChatEvent({ platform: "generic", eventName: "chat", text, user: { name, username: name.toLowerCase(), badges: [] } });
+
+    expect(manager.checkEvent(event("hola", "Ana")).isBlocked).toBeFalse();
+    expect(manager.checkEvent(event("compra spam", "Ana")).matches[0].filterName).toBe("texto");
+    expect(manager.checkEvent(event("hola", "Troll99")).matches[0].filterName).toBe("usuarios");
+    // Se puede comprobar otro texto (la plantilla ya aplicada)
+    expect(manager.checkEvent(event("hola", "Ana"), "Ana dice spam").isBlocked).toBeTrue();
+  });
+
+  it("ensureFilter is idempotent", async () => {
+    const first = await manager.ensureFilter("default", { blackList: ["x"] });
+    const second = await manager.ensureFilter("default", { blackList: ["y"] });
+    expect(second.id).toBe(first.id);
+    expect(second.blackList).toEqual(["x"]);
+    expect(manager.getAllFilters().length).toBe(1);
+  });
+
+  it("searches filters and reports stats", async () => {
+    await request("POST", "/", { blackList: ["palabrota"] });
+    await request("POST", "/", { whiteList: ["saludo"] });
+
+    const search = await request("GET", "/search?q=palabr");
+    expect(search.body.length).toBe(1);
+    expect((await request("GET", "/search")).status).toBe(400);
+
+    const stats = await request("GET", "/stats");
+    expect(stats.body).toMatchObject({ totalFilters: 2, totalBlackListItems: 1, totalWhiteListItems: 1 });
+  });
+});
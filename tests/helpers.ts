@@ -0,0 +1,35 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { Hono } from "hono";
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+
+export interface JsonResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Peticiones JSON a unas rutas de Hono: request("POST", "/", { ... })
+ * (un cuerpo string se envía tal cual, para probar JSON inválido)
+ */
+export function createRequest(routes: Hono) {
+  return async (method: string, url: string, body?: unknown): Promise<JsonResponse> => {
+    const res = await routes.request(url, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+}
+
+/**
+ * Almacenamiento en un directorio temporal nuevo: cada llamada empieza vacía
+ * y nada se escribe en el temp/data del repositorio
+ */
+export function tempStorage<T>(name: string): DataStorage<T> {
+  const dir = mkdtempSync(path.join(tmpdir(), `tts-${name}-`));
+  return new DataStorage<T>(new JSONFile(path.join(dir, `${name}.json`)));
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import { matchesRule, normalizeForMatch, validateRegex } from "../src/filters/matchers";
+
+describe("normalizeForMatch", () => {
+  it("folds accents, leetspeak and spaced-out letters", () => {
+    expect(normalizeForMatch("Pálábrá")).toBe("palabra");
+    expect(normalizeForMatch("p4l4br4")).toBe("palabra");
+    expect(normalizeForMatch("di p a l a b r a ya")).toBe("di palabra ya");
+    expect(normalizeForMatch("p.a.l.a.b.r.a")).toBe("palabra");
+  });
+
+  it("keeps normal sentences intact", () => {
+    expect(normalizeForMatch("a la casa")).toBe("a la casa");
+  });
+});
+
+describe("matchesRule", () => {
+  it("partial mode matches substrings", () => {
+    expect(matchesRule("my class", { item: "ass" })).toBeTrue();
+  });
+
+  it("word mode respects word boundaries", () => {
+    expect(matchesRule("my class", { item: "ass", mode: "word" })).toBeFalse();
+    expect(matchesRule("you ASS!", { item: "ass", mode: "word" })).toBeTrue();
+    expect(matchesRule("ñass", { item: "ass", mode: "word" })).toBeFalse();
+  });
+
+  it("exact mode compares the whole message", () => {
+    expect(matchesRule("Hola", { item: "hola", mode: "exact" })).toBeTrue();
+    expect(matchesRule("hola amigo", { item: "hola", mode: "exact" })).toBeFalse();
+  });
+
+  it("wildcard mode supports * and ?", () => {
+    expect(matchesRule("eres un tonto", { item: "ton*", mode: "wildcard" })).toBeTrue();
+    expect(matchesRule("eres un tanto", { item: "t?nto", mode: "wildcard" })).toBeTrue();
+    expect(matchesRule("monton", { item: "ton*", mode: "wildcard" })).toBeFalse();
+  });
+
+  it("regex mode uses the pattern and skips invalid ones", () => {
+    expect(matchesRule("compra ya 100 monedas", { item: "\\d+ monedas", mode: "regex" })).toBeTrue();
+    expect(matchesRule("compra foobar", { item: "(foo|bar)+", mode: "regex" })).toBeTrue();
+    expect(matchesRule("aaaa", { item: "(a)\\1", mode: "regex" })).toBeFalse();
+  });
+
+  it("regex mode runs in linear time", () => {
+    // Con RE2 no hay backtracking: (a+)+ o (a|a)* no bloquean
+    const start = performance.now();
+    expect(matchesRule("a".repeat(5000), { item: "(a+)+b", mode: "regex" })).toBeFalse();
+    expect(matchesRule("a".repeat(5000), { item: "(a|a)*b", mode: "regex" })).toBeFalse();
+    expect(performance.now() - start).toBeLessThan(500);
+    expect(matchesRule("HOLA mundo", { item: "^hola\\s+mundo$", mode: "regex" })).toBeTrue();
+    expect(matchesRule("HOLA mundo", { item: "^hola\\s+mundo$", mode: "regex" }, true)).toBeFalse();
+  });
+
+  it("normalize catches evasions", () => {
+    const rule = { item: "palabra", mode: "word" as const, normalize: true };
+    expect(matchesRule("di p a l a b r a", rule)).toBeTrue();
+    expect(matchesRule("p4l4br4!", rule)).toBeTrue();
+    expect(matchesRule("palabra", { item: "palabra", mode: "word" })).toBeTrue();
+    expect(matchesRule("p4l4br4", { item: "palabra", mode: "word" })).toBeFalse();
+  });
+
+  it("matches anywhere in long texts", () => {
+    const text = `${"hola ".repeat(200)}spam`;
+    expect(matchesRule(text, { item: "spam", mode: "word" })).toBeTrue();
+    expect(matchesRule(text, { item: "sp?m", mode: "wildcard" })).toBeTrue();
+    expect(matchesRule(text, { item: "sp[a]m$", mode: "regex" })).toBeTrue();
+  });
+});
+
+describe("validateRegex", () => {
+  it("accepts simple and quantified patterns", () => {
+    expect(validateRegex("^hola\\s+mundo$")).toBeNull();
+    // RE2 es lineal: los cuantificadores anidados o sobre alternativas no son peligrosos
+    expect(validateRegex("(foo|bar)+")).toBeNull();
+    expect(validateRegex("(a+)+")).toBeNull();
+  });
+
+  it("rejects invalid or oversized patterns", () => {
+    expect(validateRegex("(")).not.toBeNull();
+    expect(validateRegex("(a)\\1")).not.toBeNull();
+    // RE2 no admite lookarounds
+    expect(validateRegex("(?<=a)b")).not.toBeNull();
+    expect(validateRegex("a".repeat(300))).not.toBeNull();
+  });
+});
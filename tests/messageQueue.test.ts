@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
 import path from "path";
 import { mkdir, rm, stat } from "fs/promises";
-import { MessageQueue } from "../src/services/messageQueue";
+import { MAX_PLAYBACK_ATTEMPTS, MessageQueue, priorityFromEvent } from "../src/services/messageQueue";
+import { emitter } from "../src/Emitter";
 
 const storageDir = path.join(process.cwd(), "temp", "data");
 const storageFile = path.join(storageDir, "messages.json");
@@ -100,6 +101,277 @@ describe("MessageQueue", () => {
     expect(q.getAll(false).length).toBe(1);
   });
 
+  it("addEvent stores the chat event with its flat fields", () => {
+    const event = {
+      type: "chat" as const,
+      platform: "tiktok" as const,
+      eventName: "chat",
+      user: { id: "7", username: "ana_live", name: "Ana", badges: [] },
+      text: "hola",
+    };
+    const created = q.addEvent(event, { text: "hola!" });
+
+    expect(created.event).toEqual(event);
+    expect(created.uniqueId).toBe("ana_live");
+    expect(created.displayName).toBe("Ana");
+    expect(created.text).toBe("hola!");
+    expect(created.comment).toBe("hola");
+    expect(created.eventName).toBe("chat");
+    expect(created.id).not.toBe("7");
+  });
+
+  it("returns the highest priority first and keeps arrival order within a priority", () => {
+    q.add(sampleMsg({ content: "chat 1" }));
+    q.add(sampleMsg({ content: "sub", priority: "subscriber" }));
+    q.add(sampleMsg({ content: "gift 1", priority: "donation" }));
+    q.add(sampleMsg({ content: "gift 2", priority: "donation" }));
+    q.add(sampleMsg({ content: "chat 2", priority: "unknown" }));
+
+    const order = [1, 2, 3, 4, 5].map(() => q.getNextUnread()!.content);
+    expect(order).toEqual(["gift 1", "gift 2", "sub", "chat 1", "chat 2"]);
+    expect(q.getNextUnread()).toBeUndefined();
+  });
+
+  it("ages waiting messages so low priorities are eventually read", () => {
+    const aging = new MessageQueue({ agingSeconds: 10 });
+    const old = aging.add(sampleMsg({ content: "old chat" }));
+    old.createdAt = new Date(Date.now() - 35_000);
+    aging.add(sampleMsg({ content: "new mod", priority: "moderator" }));
+
+    // 35 s de espera: chat (0) + 3 niveles supera a moderator (2)
+    expect(aging.peekNextUnread()!.content).toBe("old chat");
+    expect(new MessageQueue({ agingSeconds: 0 }).effectivePriority(old)).toBe(0);
+  });
+
+  it("sets the priority of chat events from their type and badges", () => {
+    const user = { name: "Ana", badges: [] as string[] };
+    const base = { platform: "tiktok" as const, user };
+    expect(priorityFromEvent({ ...base, type: "system", eventName: "raid" })).toBe("system");
+    expect(priorityFromEvent({ ...base, type: "gift", eventName: "gift", gift: { name: "Rose", count: 1 } })).toBe("donation");
+    expect(priorityFromEvent({ ...base, type: "chat", eventName: "superchat", text: "hola", amount: { value: 5, currency: "USD" } })).toBe("donation");
+    expect(priorityFromEvent({ ...base, type: "chat", eventName: "chat", text: "hola", user: { badges: ["moderator"] } })).toBe("moderator");
+    expect(priorityFromEvent({ ...base, type: "subscribe", eventName: "subscribe" })).toBe("subscriber");
+    expect(priorityFromEvent({ ...base, type: "chat", eventName: "chat", text: "hola" })).toBe("chat");
+
+    const created = q.addEvent({ ...base, type: "gift", eventName: "gift", gift: { name: "Rose", count: 1 } });
+    expect(created.priority).toBe("donation");
+  });
+
+  it("applies the overflow policy when the queue is full", () => {
+    const evicted: any[] = [];
+    const off = emitter.on("message-evicted", (data) => evicted.push(data));
+    try {
+      const oldest = new MessageQueue({ maxSize: 2 });
+      const first = oldest.add(sampleMsg({ content: "1" }));
+      oldest.add(sampleMsg({ content: "2" }));
+      oldest.add(sampleMsg({ content: "3" }));
+      expect(oldest.getAll().map(m => m.content)).toEqual(["2", "3"]);
+      expect(evicted.at(-1)).toMatchObject({ id: first.id, reason: "overflow", policy: "drop-oldest" });
+
+      const newest = new MessageQueue({ maxSize: 2, overflowPolicy: "drop-newest" });
+      newest.add(sampleMsg({ content: "1" }));
+      newest.add(sampleMsg({ content: "2" }));
+      const rejected = newest.add(sampleMsg({ content: "3" }));
+      expect(newest.get(rejected.id)).toBeUndefined();
+      expect(newest.size()).toBe(2);
+
+      const lowest = new MessageQueue({ maxSize: 2, overflowPolicy: "drop-lowest-priority" });
+      lowest.add(sampleMsg({ content: "gift", priority: "donation" }));
+      lowest.add(sampleMsg({ content: "chat 1" }));
+      lowest.add(sampleMsg({ content: "chat 2" }));
+      expect(lowest.getAll().map(m => m.content)).toEqual(["gift", "chat 1"]);
+    } finally {
+      off();
+    }
+  });
+
+  it("drops read messages before unread ones and keeps at most maxReadMessages", () => {
+    const bounded = new MessageQueue({ maxSize: 3, maxReadMessages: 1 });
+    bounded.add(sampleMsg({ content: "1" }));
+    bounded.add(sampleMsg({ content: "2" }));
+    bounded.getNextUnread();
+    bounded.getNextUnread();
+    expect(bounded.getAll().map(m => m.content)).toEqual(["2"]);
+
+    bounded.add(sampleMsg({ content: "3" }));
+    bounded.add(sampleMsg({ content: "4" }));
+    bounded.add(sampleMsg({ content: "5" }));
+    expect(bounded.getAll().map(m => m.content)).toEqual(["3", "4", "5"]);
+  });
+
+  it("expires unread messages after unreadTtlSeconds", () => {
+    const evicted: any[] = [];
+    const off = emitter.on("message-evicted", (data) => evicted.push(data));
+    try {
+      const expiring = new MessageQueue({ unreadTtlSeconds: 60 });
+      const old = expiring.add(sampleMsg({ content: "old" }));
+      old.createdAt = new Date(Date.now() - 61_000);
+      expiring.add(sampleMsg({ content: "new" }));
+
+      expect(expiring.getAll().map(m => m.content)).toEqual(["new"]);
+      expect(evicted.at(-1)).toMatchObject({ id: old.id, reason: "expired" });
+      expect(new MessageQueue({ unreadTtlSeconds: 0 }).cleanup(Date.now() + 3_600_000)).toBe(0);
+    } finally {
+      off();
+    }
+  });
+
+  it("validates config updates", () => {
+    expect(q.updateConfig({ maxSize: -1, overflowPolicy: "drop-random" as any })).toHaveLength(2);
+    expect(q.getConfig().maxSize).toBe(500);
+  });
+
+  it("removes and edits messages by id", () => {
+    const a = q.add(sampleMsg({ content: "Hola", text: "Hola", msg: undefined }));
+    const b = q.add(sampleMsg());
+
+    const edited = q.update(a.id, { text: "Hola a todos", priority: "moderator" })!;
+    expect(edited).toMatchObject({ content: "Hola a todos", text: "Hola a todos", priority: "moderator" });
+    expect(edited.comment).toBe("Hola a todos");
+    expect(edited.msg).toBeUndefined();
+    expect(edited.editedAt).toBeInstanceOf(Date);
+    expect(q.update("missing", { text: "x" })).toBeUndefined();
+
+    expect(q.remove(b.id)).toBeTrue();
+    expect(q.remove(b.id)).toBeFalse();
+    expect(q.size()).toBe(1);
+  });
+
+  it("moves messages to the top or to a position in the reading order", () => {
+    const gift = q.add(sampleMsg({ content: "gift", priority: "donation" }));
+    const chat1 = q.add(sampleMsg({ content: "chat 1" }));
+    const chat2 = q.add(sampleMsg({ content: "chat 2" }));
+    const contents = () => q.readingOrder().map(m => m.content);
+
+    expect(q.move(chat2.id, "top")).toBe(0);
+    expect(contents()).toEqual(["chat 2", "gift", "chat 1"]);
+
+    expect(q.move(chat2.id, 99)).toBe(2);
+    expect(contents()).toEqual(["gift", "chat 1", "chat 2"]);
+
+    expect(q.move(chat1.id, 0)).toBe(0);
+    expect(contents()).toEqual(["chat 1", "gift", "chat 2"]);
+
+    q.markAsRead(gift.id);
+    expect(q.move(gift.id, "top")).toBeUndefined();
+    expect(q.getNextUnread()!.id).toBe(chat1.id);
+  });
+
+  it("requeues read messages at the end", () => {
+    const a = q.add(sampleMsg({ content: "a" }));
+    q.add(sampleMsg({ content: "b" }));
+    q.getNextUnread();
+
+    const requeued = q.requeue(a.id)!;
+    expect(requeued.isRead).toBeFalse();
+    expect(requeued.readAt).toBeUndefined();
+    expect(q.readingOrder().map(m => m.content)).toEqual(["b", "a"]);
+    expect(q.requeue("missing")).toBeUndefined();
+  });
+
+  it("holds messages until they are released", () => {
+    const held = new MessageQueue({ unreadTtlSeconds: 60 });
+    const a = held.add(sampleMsg({ content: "a" }));
+    held.add(sampleMsg({ content: "b" }));
+
+    expect(held.hold(a.id)?.held).toBeTrue();
+    a.createdAt = new Date(Date.now() - 120_000);
+    expect(held.cleanup()).toBe(0);
+    expect(held.getNextUnread()!.content).toBe("b");
+    expect(held.getNextUnread()).toBeUndefined();
+
+    expect(held.release(a.id)?.held).toBeUndefined();
+    expect(held.peekNextUnread()!.content).toBe("a");
+  });
+
+  it("tracks playback apart from the read state", () => {
+    const first = q.add(sampleMsg({ content: "first" }));
+    const second = q.add(sampleMsg({ content: "second" }));
+
+    // Leerlo con GET /messages/next no lo quita de la reproducción
+    expect(q.getNextUnread()!.id).toBe(first.id);
+    expect(q.claimForPlayback()!.id).toBe(first.id);
+    expect(q.get(first.id)?.playback).toBe("claimed");
+    expect(q.peekNextUnread()!.id).toBe(second.id);
+
+    // Sin sonar vuelve a esperar en su sitio
+    expect(q.settlePlayback(first.id, false)).toBeTrue();
+    expect(q.playbackOrder().map(m => m.id)).toEqual([first.id, second.id]);
+
+    expect(q.claimForPlayback()!.id).toBe(first.id);
+    expect(q.settlePlayback(first.id, true)).toBeTrue();
+    expect(q.get(first.id)?.playedAt).toBeInstanceOf(Date);
+    expect(q.settlePlayback(first.id, true)).toBeFalse();
+    expect(q.get(second.id)?.isRead).toBeFalse();
+
+    expect(q.skipPlayback()).toBe(1);
+    expect(q.claimForPlayback()).toBeUndefined();
+    expect(q.peekNextUnread()!.id).toBe(second.id);
+  });
+
+  it("gives up on messages that never manage to play", () => {
+    const msg = q.add(sampleMsg());
+    for (let i = 0; i < MAX_PLAYBACK_ATTEMPTS; i++) {
+      expect(q.claimForPlayback()!.id).toBe(msg.id);
+      q.settlePlayback(msg.id, false);
+    }
+    expect(q.get(msg.id)?.playback).toBe("done");
+    expect(q.claimForPlayback()).toBeUndefined();
+  });
+
+  it("keeps pending messages out of the reading order until approved", () => {
+    const notified: any[] = [];
+    const off = emitter.on("pending", (data) => notified.push(data));
+    try {
+      const pending = q.add(sampleMsg({ content: "needs review", status: "pending" }));
+      q.add(sampleMsg({ content: "normal" }));
+      expect(notified.map(m => m.id)).toEqual([pending.id]);
+      expect(q.pending().map(m => m.id)).toEqual([pending.id]);
+      expect(q.unreadSize()).toBe(1);
+      expect(q.getNextUnread()!.content).toBe("normal");
+      expect(q.getNextUnread()).toBeUndefined();
+
+      expect(q.approve(pending.id)).toMatchObject({ status: "approved" });
+      expect(q.approve(pending.id)).toBeUndefined();
+      expect(q.getNextUnread()!.id).toBe(pending.id);
+    } finally {
+      off();
+    }
+  });
+
+  it("rejects pending messages with a reason", () => {
+    const evicted: any[] = [];
+    const off = emitter.on("message-evicted", (data) => evicted.push(data));
+    try {
+      const pending = q.add(sampleMsg({ status: "pending" }));
+      const normal = q.add(sampleMsg());
+      expect(q.reject(normal.id)).toBeUndefined();
+
+      expect(q.reject(pending.id, "spam")).toMatchObject({ rejectReason: "spam" });
+      expect(q.get(pending.id)).toBeUndefined();
+      expect(evicted.at(-1)).toMatchObject({ id: pending.id, reason: "rejected" });
+    } finally {
+      off();
+    }
+  });
+
+  it("approves the pending messages when approval mode is turned off", () => {
+    expect(q.updateConfig({ approvalMode: true })).toEqual([]);
+    const pending = q.add(sampleMsg({ content: "waiting", status: "pending" }));
+    expect(q.getNextUnread()).toBeUndefined();
+
+    expect(q.updateConfig({ approvalMode: false })).toEqual([]);
+    expect(q.pending()).toEqual([]);
+    expect(q.get(pending.id)?.status).toBe("approved");
+    expect(q.get(pending.id)?.reviewedAt).toBeInstanceOf(Date);
+    expect(q.getNextUnread()!.id).toBe(pending.id);
+  });
+
+  it("validates approval mode settings", () => {
+    expect(q.updateConfig({ approvalMode: "yes" as any })).toEqual(["approvalMode must be a boolean"]);
+    expect(q.getConfig()).toMatchObject({ approvalMode: false, autoApproveAllowListed: true });
+  });
+
   it("clear empties the queue", () => {
     q.add(sampleMsg());
     expect(q.size()).toBe(1);
@@ -109,6 +381,16 @@ describe("MessageQueue", () => {
     expect(q.unreadSize()).toBe(0);
   });
 
+  it("keeps messages added while the backup is loading", async () => {
+    q.add(sampleMsg({ content: "saved" }));
+
+    const freshQueue = new MessageQueue();
+    const loading = freshQueue.loadBackup();
+    freshQueue.add(sampleMsg({ content: "new" }));
+    await loading;
+    expect(freshQueue.getAll().map(m => m.content)).toEqual(["saved", "new"]);
+  });
+
   it("persists to disk and loadBackup loads saved state (new instance)", async () => {
     // Arrange: create data (this triggers a write via dataStorage)
     q.add(sampleMsg({ content: "Persist Me" }));
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createModerationRoutes } from "../src/routes/moderation";
+import { UserModeration, type ModerationData } from "../src/filters/user-moderation";
+import { createRequest, tempStorage } from "./helpers";
+
+describe("User moderation", () => {
+  let moderation: UserModeration;
+  let request: ReturnType<typeof createRequest>;
+
+  beforeEach(async () => {
+    moderation = new UserModeration(tempStorage("user-moderation"));
+    await moderation.ready;
+    request = createRequest(createModerationRoutes(moderation));
+  });
+
+  it("bans users by any of their identifiers", async () => {
+    const res = await request("POST", "/bans", { user: "@Troll", reason: "spam" });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ userKey: "troll", reason: "spam", expiresAt: null });
+
+    expect(moderation.check({ displayName: "TROLL" })).toMatchObject({ allowed: false, reason: "banned" });
+    expect(moderation.check({ uniqueId: "other", username: "troll" }).allowed).toBeFalse();
+    expect(moderation.check({ username: "friend" }).allowed).toBeTrue();
+
+    expect((await request("DELETE", "/bans/troll")).body).toEqual({ ok: true });
+    expect(moderation.check({ username: "troll" }).allowed).toBeTrue();
+    expect((await request("DELETE", "/bans/troll")).status).toBe(404);
+  });
+
+  it("timeouts expire", async () => {
+    await request("POST", "/bans", { user: "pesado", durationSeconds: 60 });
+    const result = moderation.check({ username: "pesado" });
+    expect(result).toMatchObject({ allowed: false, reason: "timeout" });
+    expect(!result.allowed && result.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+    await moderation.ban("pesado", { durationSeconds: 0.001 });
+    await Bun.sleep(10);
+    expect(moderation.check({ username: "pesado" }).allowed).toBeTrue();
+    expect(moderation.list().bans).toEqual([]);
+  });
+
+  it("only lets allow-listed users through in allow-list mode", async () => {
+    await request("POST", "/allow", { user: "Streamer" });
+    const mode = await request("PUT", "/mode", { allowListOnly: true });
+    expect(mode.body).toMatchObject({ allowListOnly: true, allowList: ["streamer"] });
+
+    expect(moderation.check({ uniqueId: "streamer" }).allowed).toBeTrue();
+    expect(moderation.check({ uniqueId: "random" })).toMatchObject({ allowed: false, reason: "not_allowed" });
+    expect((await request("GET", "/check?user=random")).body.allowed).toBeFalse();
+  });
+
+  it("does not allow-list users that copy an allowed display name", async () => {
+    await request("POST", "/allow", { user: "Streamer" });
+    await request("PUT", "/mode", { allowListOnly: true });
+
+    const spoofed = { uniqueId: "impostor", username: "impostor", displayName: "Streamer", nickname: "Streamer" };
+    expect(moderation.isAllowListed(spoofed)).toBeFalse();
+    expect(moderation.check(spoofed)).toMatchObject({ allowed: false, reason: "not_allowed", userKey: "impostor" });
+    // El id de la plataforma sí cuenta
+    await request("POST", "/allow", { user: "12345" });
+    expect(moderation.check({ id: "12345", uniqueId: "renamed" }).allowed).toBeTrue();
+    // Los bans siguen usando también el nombre visible
+    await moderation.ban("Streamer");
+    expect(moderation.check({ uniqueId: "impostor", displayName: "Streamer" })).toMatchObject({ allowed: false, reason: "banned" });
+  });
+
+  it("keeps changes made while the backup is loading", async () => {
+    const storage = tempStorage<ModerationData>("user-moderation");
+    await storage.save("data", { allowListOnly: false, bans: { troll: { userKey: "troll", expiresAt: null, createdAt: new Date() } }, allowList: [] });
+
+    const fresh = new UserModeration(storage);
+    await fresh.allow("streamer");
+    expect(fresh.list().allowList).toEqual(["streamer"]);
+    expect(fresh.list().bans.map(ban => ban.userKey)).toEqual(["troll"]);
+  });
+
+  it("validates request bodies", async () => {
+    expect((await request("POST", "/bans", {})).status).toBe(400);
+    expect((await request("POST", "/bans", { user: "x", durationSeconds: -1 })).status).toBe(400);
+    expect((await request("PUT", "/mode", { allowListOnly: "yes" })).status).toBe(400);
+    expect((await request("GET", "/check")).status).toBe(400);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { PlaybackQueue } from "../src/services/playbackQueue";
+import { ttsRegistry } from "../src/services/providers/registry";
+import { TTS_Config } from "../src/services/tts";
+import { emitter } from "../src/Emitter";
+import { RateLimiter } from "../src/filters/rate-limiter";
+
+// Proveedor de prueba: cuenta las síntesis y devuelve el texto como audio
+const synthesized: string[] = [];
+let synthesisDelayMs = 0;
+const fakeProvider = {
+  name: "fake-playback",
+  formats: [{ id: "mp3", mimeType: "audio/mpeg" }],
+  async synthesize(text: string, voice: string) {
+    synthesized.push(text);
+    if (synthesisDelayMs) await Bun.sleep(synthesisDelayMs);
+    return { provider: "fake-playback", voice, format: this.formats[0], audio: new TextEncoder().encode(text), durationMs: 1000 };
+  },
+  async listVoices() {
+    return [];
+  },
+};
+
+let textCounter = 0;
+// Textos únicos: synthesizeAudio guarda en caché por texto
+function entry(user = "ana") {
+  return { text: `mensaje ${++textCounter}`, user, userKey: user, voice: "v1" };
+}
+
+async function waitFor(condition: () => boolean) {
+  for (let i = 0; i < 100 && !condition(); i++) await Bun.sleep(1);
+  expect(condition()).toBeTrue();
+}
+
+describe("PlaybackQueue", () => {
+  let originalProvider: string;
+  let queue: PlaybackQueue;
+  let frames: any[];
+  let offAudio: (() => void) | undefined;
+
+  beforeAll(() => {
+    originalProvider = TTS_Config.ttsprovider;
+    ttsRegistry.register(fakeProvider);
+    TTS_Config.ttsprovider = fakeProvider.name;
+  });
+
+  afterAll(() => {
+    TTS_Config.ttsprovider = originalProvider;
+    ttsRegistry.unregister(fakeProvider.name);
+  });
+
+  beforeEach(() => {
+    frames = [];
+    synthesized.length = 0;
+    synthesisDelayMs = 0;
+    queue = new PlaybackQueue();
+  });
+
+  afterEach(() => {
+    queue.clear(); // Cancela el temporizador del audio que suena
+    offAudio?.();
+    offAudio = undefined;
+  });
+
+  function listen() {
+    offAudio = emitter.on("audio", (frame) => frames.push(frame));
+  }
+
+  it("skips messages without synthesizing them when nobody is listening", async () => {
+    const item = queue.enqueue(entry());
+    expect(item.status).toBe("skipped");
+    await Bun.sleep(5);
+    expect(synthesized).toEqual([]);
+    expect(queue.state().items).toEqual([]);
+  });
+
+  it("does not count queued messages towards the per-user limit without listeners", () => {
+    const limiter = new RateLimiter({ load: async () => undefined, save: async () => undefined } as any);
+    limiter.updateConfig({ perUser: { burst: 100, refillPerSecond: 10, cooldownSeconds: 0, maxQueued: 3 } });
+    for (let i = 0; i < 5; i++) {
+      queue.enqueue(entry("bob"));
+      expect(limiter.check("bob", queue.pendingCount("bob")).allowed).toBeTrue();
+    }
+    expect(queue.pendingCount("bob")).toBe(0);
+  });
+
+  it("sends one audio at a time and moves on when it is played or skipped", async () => {
+    listen();
+    const first = queue.enqueue(entry());
+    const second = queue.enqueue(entry());
+    const third = queue.enqueue(entry());
+    await waitFor(() => frames.length === 1);
+    expect(frames[0]).toMatchObject({ type: "audio", id: first.id, text: first.text, mimeType: "audio/mpeg" });
+    expect(queue.state().current).toBe(first.id);
+
+    expect(queue.ack(first.id, "played")).toBeTrue();
+    expect(queue.ack(first.id, "played")).toBeFalse();
+    await waitFor(() => frames.length === 2);
+    expect(frames[1].id).toBe(second.id);
+
+    expect(queue.skip()).toBeTrue();
+    expect(queue.get(second.id)?.status).toBe("skipped");
+    await waitFor(() => frames.length === 3);
+    expect(frames[2].id).toBe(third.id);
+    expect(queue.get(first.id)?.status).toBe("played");
+  });
+
+  it("does not play audios cleared while they were being synthesized", async () => {
+    listen();
+    synthesisDelayMs = 20;
+    const item = queue.enqueue(entry());
+    await waitFor(() => synthesized.length === 1);
+    expect(queue.clear()).toBe(1);
+
+    await Bun.sleep(40);
+    expect(queue.get(item.id)?.status).toBe("skipped");
+    expect(frames).toHaveLength(0);
+  });
+
+  it("holds audios while paused", async () => {
+    listen();
+    queue.pause();
+    const item = queue.enqueue(entry());
+    await waitFor(() => queue.get(item.id)?.status === "queued");
+    expect(frames).toHaveLength(0);
+    expect(queue.state().paused).toBeTrue();
+
+    queue.resume();
+    expect(frames.map(f => f.id)).toEqual([item.id]);
+  });
+
+  it("keeps only maxHistory finished items", async () => {
+    listen();
+    queue = new PlaybackQueue(2);
+    for (let i = 0; i < 4; i++) {
+      const item = queue.enqueue(entry());
+      await waitFor(() => queue.get(item.id)?.status === "playing");
+      queue.ack(item.id, "played");
+    }
+    const finished = queue.list().filter(i => i.status === "played");
+    expect(finished).toHaveLength(2);
+    expect(queue.list()).toHaveLength(2);
+  });
+
+  it("pulls from its source only while someone listens, one audio ahead", async () => {
+    const waiting = [entry(), entry(), entry()];
+    let pulls = 0;
+    queue.setSource({
+      next: () => {
+        pulls++;
+        return waiting.shift();
+      },
+    });
+    expect(pulls).toBe(0);
+
+    listen();
+    queue.pump();
+    await waitFor(() => frames.length === 1);
+    // Uno sonando y el siguiente sacado para sintetizarlo
+    expect(waiting).toHaveLength(1);
+
+    queue.ack(frames[0].id, "played");
+    await waitFor(() => frames.length === 2);
+    expect(waiting).toHaveLength(0);
+    expect(frames.map(f => f.text)).toEqual([`mensaje ${textCounter - 2}`, `mensaje ${textCounter - 1}`]);
+  });
+
+  it("tells its source how each pulled message ended", async () => {
+    const waiting = [{ ...entry(), messageId: "m1" }, { ...entry(), messageId: "m2" }];
+    const outcomes: string[] = [];
+    queue.setSource({
+      next: () => waiting.shift(),
+      settle: (messageId, outcome) => outcomes.push(`${messageId}:${outcome}`),
+    });
+    listen();
+    queue.pump();
+    await waitFor(() => frames.length === 1);
+    queue.ack(frames[0].id, "played");
+    await waitFor(() => frames.length === 2);
+    queue.clear();
+    expect(outcomes).toEqual(["m1:played", "m2:skipped"]);
+
+    // Sin overlays el que se estaba por sintetizar no llega a sonar
+    waiting.push({ ...entry(), messageId: "m3" });
+    queue.pump();
+    offAudio?.();
+    offAudio = undefined;
+    await waitFor(() => outcomes.length === 3);
+    expect(outcomes[2]).toBe("m3:dropped");
+  });
+
+  it("drops the oldest waiting audios beyond maxPending", async () => {
+    listen();
+    queue = new PlaybackQueue(50, 2);
+    const playing = queue.enqueue(entry());
+    await waitFor(() => queue.get(playing.id)?.status === "playing");
+
+    const waiting = [entry(), entry(), entry()].map(e => queue.enqueue(e));
+    expect(waiting.map(i => queue.get(i.id)?.status)).toEqual(["skipped", "synthesizing", "synthesizing"]);
+    expect(queue.get(playing.id)?.status).toBe("playing");
+    await waitFor(() => queue.get(waiting[2].id)?.status === "queued");
+    // El saltado no se llegó a sintetizar
+    expect(synthesized).not.toContain(waiting[0].text);
+  });
+});
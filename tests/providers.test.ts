@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { TTSProviderRegistry } from "../src/services/providers/registry";
+import type { TTSProvider, ProviderSynthesisOptions, SynthesisResult } from "../src/services/providers/types";
+
+const MP3 = { id: "mp3", mimeType: "audio/mpeg" };
+
+// Proveedor de prueba: devuelve su nombre como audio o falla si se le indica
+function stubProvider(name: string, options: { fails?: boolean; chunks?: string[] } = {}) {
+  const calls: string[] = [];
+  const provider: TTSProvider = {
+    name,
+    formats: [MP3],
+    async synthesize(text: string, voice: string, _options?: ProviderSynthesisOptions): Promise<SynthesisResult> {
+      calls.push(text);
+      if (options.fails) throw new Error(`${name} is down`);
+      return { provider: name, voice, format: MP3, audio: new TextEncoder().encode(name) };
+    },
+    async listVoices() {
+      return [];
+    },
+  };
+  if (options.chunks) {
+    const chunks = options.chunks;
+    provider.synthesizeStream = async function* (text: string) {
+      calls.push(text);
+      if (options.fails) throw new Error(`${name} is down`);
+      for (const chunk of chunks) yield new TextEncoder().encode(chunk);
+    };
+  }
+  return { provider, calls };
+}
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<string> {
+  let text = "";
+  for await (const chunk of chunks) text += new TextDecoder().decode(chunk);
+  return text;
+}
+
+describe("TTSProviderRegistry", () => {
+  let registry: TTSProviderRegistry;
+
+  beforeEach(() => {
+    registry = new TTSProviderRegistry();
+  });
+
+  it("uses the requested provider when it works", async () => {
+    const primary = stubProvider("primary");
+    const backup = stubProvider("backup");
+    registry.register(primary.provider);
+    registry.register(backup.provider);
+
+    const result = await registry.synthesize("primary", "hola", "voz");
+    expect(result.provider).toBe("primary");
+    expect(backup.calls).toEqual([]);
+  });
+
+  it("falls back to the next provider when the primary fails", async () => {
+    const primary = stubProvider("primary", { fails: true });
+    const backup = stubProvider("backup");
+    registry.register(primary.provider);
+    registry.register(backup.provider);
+
+    const result = await registry.synthesize("primary", "hola", "voz");
+    expect(result.provider).toBe("backup");
+    expect(primary.calls).toEqual(["hola"]);
+    expect(backup.calls).toEqual(["hola"]);
+  });
+
+  it("follows the configured fallback order", async () => {
+    registry.register(stubProvider("a", { fails: true }).provider);
+    registry.register(stubProvider("b").provider);
+    registry.register(stubProvider("c").provider);
+    registry.setFallbackOrder(["c", "b"]);
+
+    expect(registry.resolveChain("a").map(p => p.name)).toEqual(["a", "c", "b"]);
+    expect((await registry.synthesize("a", "hola", "voz")).provider).toBe("c");
+  });
+
+  it("throws when every provider fails or none is registered", async () => {
+    registry.register(stubProvider("a", { fails: true }).provider);
+    registry.register(stubProvider("b", { fails: true }).provider);
+
+    await expect(registry.synthesize("a", "hola", "voz")).rejects.toThrow("All TTS providers failed (a, b)");
+    await expect(new TTSProviderRegistry().synthesize("a", "hola", "voz")).rejects.toThrow('No TTS provider registered for "a"');
+  });
+
+  it("streams from the first provider that starts and wraps non-streaming ones", async () => {
+    registry.register(stubProvider("streaming", { fails: true, chunks: ["x"] }).provider);
+    registry.register(stubProvider("whole").provider);
+    const fallback = await registry.stream("streaming", "hola", "voz");
+    expect(fallback.provider).toBe("whole");
+    expect(await collect(fallback.chunks)).toBe("whole");
+
+    registry.register(stubProvider("chunks", { chunks: ["uno ", "dos"] }).provider);
+    const streamed = await registry.stream("chunks", "hola", "voz");
+    expect(streamed.provider).toBe("chunks");
+    expect(await collect(streamed.chunks)).toBe("uno dos");
+  });
+
+  it("drops unregistered providers from the fallback order", () => {
+    registry.register(stubProvider("a").provider);
+    registry.register(stubProvider("b").provider);
+    registry.setFallbackOrder(["b", "a"]);
+
+    expect(registry.unregister("b")).toBeTrue();
+    expect(registry.getFallbackOrder()).toEqual(["a"]);
+    expect(registry.has("b")).toBeFalse();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, beforeEach } from "bun:test";
+import { mkdtemp } from "fs/promises";
+import path from "path";
+import { tmpdir } from "os";
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+import { RateLimiter } from "../src/filters/rate-limiter";
+
+describe("RateLimiter", () => {
+  let limiter: RateLimiter;
+  let storage: DataStorage<any>;
+  const t0 = 1_000_000;
+
+  beforeAll(async () => {
+    // Sin tocar temp/data/rate-limit.json del proyecto
+    const tempRoot = await mkdtemp(path.join(tmpdir(), "ttsratelimit-"));
+    storage = new DataStorage(new JSONFile(path.join(tempRoot, "rate-limit.json")));
+  });
+
+  beforeEach(async () => {
+    limiter = new RateLimiter(storage);
+    await limiter.ready;
+    limiter.updateConfig({
+      enabled: true,
+      perUser: { burst: 2, refillPerSecond: 0.25, cooldownSeconds: 1, maxQueued: 0 },
+      global: { burst: 100, refillPerSecond: 10 },
+    });
+  });
+
+  it("enforces the per-user cooldown", () => {
+    expect(limiter.check("ana", 0, t0).allowed).toBeTrue();
+    const result = limiter.check("ana", 0, t0 + 500);
+    expect(result).toMatchObject({ allowed: false, reason: "user_cooldown", retryAfterSeconds: 1 });
+    expect(limiter.check("bob", 0, t0 + 500).allowed).toBeTrue();
+  });
+
+  it("limits bursts and refills tokens over time", () => {
+    expect(limiter.check("ana", 0, t0).allowed).toBeTrue();
+    expect(limiter.check("ana", 0, t0 + 1000).allowed).toBeTrue();
+    const limited = limiter.check("ana", 0, t0 + 2000);
+    expect(limited).toMatchObject({ allowed: false, reason: "user_rate_limit" });
+    // 0.25 tokens/s: hasta los 4s no vuelve a haber uno entero
+    expect(limiter.check("ana", 0, t0 + 3000).allowed).toBeFalse();
+    expect(limiter.check("ana", 0, t0 + 4000).allowed).toBeTrue();
+  });
+
+  it("rejects users with too many queued messages", () => {
+    limiter.updateConfig({ perUser: { maxQueued: 2 } });
+    expect(limiter.check("ana", 2, t0)).toMatchObject({ allowed: false, reason: "user_queue_full" });
+    expect(limiter.check("ana", 1, t0).allowed).toBeTrue();
+  });
+
+  it("applies the global bucket to every message", () => {
+    limiter.updateConfig({ global: { burst: 2, refillPerSecond: 0 } });
+    expect(limiter.check("a", 0, t0).allowed).toBeTrue();
+    expect(limiter.check(undefined, 0, t0).allowed).toBeTrue();
+    expect(limiter.check("b", 0, t0)).toMatchObject({ allowed: false, reason: "global_rate_limit" });
+  });
+
+  it("does not consume tokens for rejected messages", () => {
+    limiter.updateConfig({ global: { burst: 1, refillPerSecond: 0 } });
+    expect(limiter.check("ana", 0, t0).allowed).toBeTrue();
+    expect(limiter.check("ana", 0, t0 + 100).allowed).toBeFalse();
+    limiter.updateConfig({ enabled: false });
+    expect(limiter.check("ana", 0, t0 + 200).allowed).toBeTrue();
+  });
+
+  it("validates config updates", () => {
+    const errors = limiter.updateConfig({ perUser: { burst: -1 } });
+    expect(errors.length).toBeGreaterThan(0);
+    expect(limiter.getConfig().perUser.burst).toBe(2);
+    expect(limiter.updateConfig({ perUser: 5 as any, global: null as any })).toEqual([
+      "perUser must be an object",
+      "global must be an object",
+    ]);
+  });
+
+  it("caps retryAfter when tokens never refill", () => {
+    limiter.updateConfig({ global: { burst: 1, refillPerSecond: 0 } });
+    limiter.check(undefined, 0, t0);
+    const result = limiter.check(undefined, 0, t0);
+    expect(result).toMatchObject({ allowed: false, reason: "global_rate_limit", retryAfterSeconds: 3600 });
+    expect(JSON.parse(JSON.stringify(result)).retryAfterSeconds).toBe(3600);
+  });
+
+  it("persists the config to the given storage", async () => {
+    const reloaded = new RateLimiter(storage);
+    await reloaded.ready;
+    expect(reloaded.getConfig().perUser).toMatchObject({ burst: 2, maxQueued: 0 });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { ConfigurableReplacer } from "../src/controllers/ConfigurableReplacer";
+
+describe("ConfigurableReplacer", () => {
+  const replacer = new ConfigurableReplacer();
+
+  it("only replaces delimited placeholders", () => {
+    const data = { user: "msgfan", msg: "mira este message", comment: "hola" };
+    expect(replacer.replace("{user} {msg}", data)).toBe("msgfan mira este message");
+    expect(replacer.replace("{{user}} dice: {{ msg }}", data)).toBe("msgfan dice: mira este message");
+    expect(replacer.replace("user msg", data)).toBe("user msg");
+    // Los patrones configurados siguen apuntando a su dataKey
+    expect(replacer.replace("{message}", data)).toBe("hola");
+  });
+
+  it("looks up dot paths in nested data", () => {
+    const data = { gift: { name: "Rosa", info: { diamonds: 1 } }, "a.b": "literal" };
+    expect(replacer.replace("{gift.name} ({{gift.info.diamonds}})", data)).toBe("Rosa (1)");
+    expect(replacer.replace("{a.b}", data)).toBe("literal");
+    expect(replacer.replace("[{gift.missing.deep}]", data)).toBe("[]");
+  });
+
+  it("applies filters", () => {
+    const data = { user: "ana", msg: "un mensaje bastante largo" };
+    expect(replacer.replace("{user|upper}", data)).toBe("ANA");
+    expect(replacer.replace("{user | capitalize}", data)).toBe("Ana");
+    expect(replacer.replace('{nadie|default:"alguien"}', data)).toBe("alguien");
+    expect(replacer.replace("{msg|truncate:10|upper}", data)).toBe("UN MENSAJE");
+  });
+
+  it("uses the default filter instead of the configured sample values when data is missing", () => {
+    // giftName y repeatCount tienen patrones configurados con valores de ejemplo
+    expect(replacer.replace('{giftName|default:"un regalo"} x{repeatcount}', {})).toBe("un regalo x");
+    expect(replacer.replace("{likes}", {})).toBe("");
+    expect(replacer.replace("{#if giftname}regalo{else}nada{/if}", {})).toBe("nada");
+  });
+
+  it("does not read inherited properties", () => {
+    expect(replacer.replace("[{constructor}] [{toString}] [{gift.constructor.name}]", { gift: { name: "Rosa" } })).toBe("[] [] []");
+  });
+
+  it("supports conditionals", () => {
+    const template = "{user}{#if gift} envió {gift.name}{else} dice {msg}{/if}";
+    expect(replacer.replace(template, { user: "ana", gift: { name: "Rosa" } })).toBe("ana envió Rosa");
+    expect(replacer.replace(template, { user: "ana", msg: "hola" })).toBe("ana dice hola");
+    expect(replacer.replace("{#if !msg}sin mensaje{/if}", { msg: "" })).toBe("sin mensaje");
+  });
+
+  it("leaves invalid tags and escaped braces as text and does not re-process values", () => {
+    expect(replacer.replace("{ no es un placeholder } {x|nope}", {})).toBe("{ no es un placeholder } {x|nope}");
+    expect(replacer.replace("\\{user}", { user: "ana" })).toBe("{user}");
+    expect(replacer.replace("{msg}", { msg: "{user}", user: "ana" })).toBe("{user}");
+  });
+
+  it("tracks replacements and processes nested inputs", () => {
+    const { result, replacementMap } = replacer.replaceWithTracking(
+      { title: "{user}", lines: ["{giftName|lower}"] },
+      { user: "Ana", giftName: "ROSA" }
+    );
+    expect(result).toEqual({ title: "Ana", lines: ["rosa"] });
+    expect(replacementMap.get("Ana")).toEqual({ original: "{user}", dataKey: "user", replaced: "Ana" });
+    expect(replacementMap.get("rosa")).toMatchObject({ original: "{giftName|lower}", dataKey: "giftName" });
+  });
+
+  it("migrates legacy templates", () => {
+    expect(replacer.migrateLegacyTemplate("user msg")).toBe("{user} {msg}");
+    expect(replacer.migrateLegacyTemplate("user envió repeatCount giftName")).toBe("{user} envió {repeatCount} {giftName}");
+    expect(replacer.migrateLegacyTemplate("{likes} likes de username")).toBe("{likes} likes de username");
+    expect(replacer.migrateLegacyTemplate("{user|upper} msg")).toBe("{user|upper} {msg}");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import type { DataStorage } from "json-obj-manager";
+import { createReplacerRoutes } from "../src/routes/replacers";
+import { ReplacerConfigManager, type ReplacerConfig } from "../src/services/replacerConfigs";
+import { createRequest, tempStorage } from "./helpers";
+
+describe("Replacer configs", () => {
+  let storage: DataStorage<Record<string, ReplacerConfig>>;
+  let configs: ReplacerConfigManager;
+  let request: ReturnType<typeof createRequest>;
+
+  beforeEach(async () => {
+    storage = tempStorage<Record<string, ReplacerConfig>>("replacer-configs");
+    configs = new ReplacerConfigManager(storage);
+    await configs.ready;
+    request = createRequest(createReplacerRoutes(configs));
+  });
+
+  it("always has a default instance", async () => {
+    const res = await request("GET", "/");
+    expect(res.body.map((c: ReplacerConfig) => c.instanceId)).toEqual(["default"]);
+    expect(configs.getReplacer()!.replace("{giftname}", { giftName: "Rosa" })).toBe("Rosa");
+  });
+
+  it("creates, updates and deletes instances", async () => {
+    const created = await request("POST", "/", {
+      instanceId: "stream-2",
+      replacements: { nombre: { dataKey: "nickname", defaultValue: "alguien" } },
+    });
+    expect(created.status).toBe(201);
+    expect(configs.getReplacer("stream-2")!.replace('{nombre|default:"alguien"}', {})).toBe("alguien");
+    expect(configs.getReplacer("stream-2")!.replace("{nombre}", { nickname: "Ana" })).toBe("Ana");
+    expect((await request("POST", "/", { instanceId: "stream-2" })).status).toBe(409);
+
+    const updated = await request("PUT", "/stream-2", { replacements: { nombre: { dataKey: "uniqueId", defaultValue: "" } } });
+    expect(updated.status).toBe(200);
+    expect(configs.getReplacer("stream-2")!.replace("{nombre}", { uniqueId: "ana" })).toBe("ana");
+    expect(updated.body.removeBackslashes).toBeTrue();
+
+    expect((await request("DELETE", "/stream-2")).body).toEqual({ ok: true });
+    expect((await request("GET", "/stream-2")).status).toBe(404);
+    expect(configs.getReplacer("stream-2")).toBeUndefined();
+  });
+
+  it("validates configs", async () => {
+    expect((await request("POST", "/", { instanceId: "con espacios" })).status).toBe(400);
+    expect((await request("POST", "/", { instanceId: "x", replacements: { a: { dataKey: "" } } })).status).toBe(400);
+    expect((await request("PUT", "/default", { removeBackslashes: "no" })).status).toBe(400);
+    expect((await request("PUT", "/missing", {})).status).toBe(404);
+  });
+
+  it("exports and imports configs", async () => {
+    await request("POST", "/", { instanceId: "exportada", removeBackslashes: false });
+    const exported = await request("GET", "/export?instanceId=exportada");
+    expect(exported.body.configs.length).toBe(1);
+
+    await request("DELETE", "/exportada");
+    const imported = await request("POST", "/import", exported.body);
+    expect(imported.body).toEqual({ ok: true, imported: ["exportada"], skipped: [] });
+    expect(configs.get("exportada")!.removeBackslashes).toBeFalse();
+
+    const again = await request("POST", "/import", exported.body);
+    expect(again.body.skipped).toEqual(["exportada"]);
+    expect((await request("POST", "/import", { configs: [{ instanceId: "" }] })).status).toBe(400);
+  });
+
+  it("keeps configs after reload", async () => {
+    await request("POST", "/", { instanceId: "exportada", removeBackslashes: false });
+    await Bun.sleep(50);
+    const reloaded = new ReplacerConfigManager(storage);
+    await reloaded.ready;
+    expect(reloaded.get("exportada")?.removeBackslashes).toBeFalse();
+  });
+});
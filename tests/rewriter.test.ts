@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createRewriteRoutes } from "../src/routes/rewrite";
+import { TextRewriter, localeFromVoice, type RewriteRule } from "../src/filters/rewriter";
+import { createRequest, tempStorage } from "./helpers";
+
+describe("Text rewrite rules", () => {
+  let rewriter: TextRewriter;
+  let request: ReturnType<typeof createRequest>;
+
+  beforeEach(async () => {
+    rewriter = new TextRewriter(tempStorage("rewrite-rules"));
+    await rewriter.ready;
+    request = createRequest(createRewriteRoutes(rewriter));
+  });
+
+  it("reads the locale from Edge voice names", () => {
+    expect(localeFromVoice("es-MX-DaliaNeural")).toBe("es-MX");
+    expect(localeFromVoice("zh-CN-liaoning-XiaobeiNeural")).toBe("zh-CN");
+    expect(localeFromVoice("whatever")).toBeUndefined();
+  });
+
+  it("expands the default abbreviations only for Spanish voices", () => {
+    expect(rewriter.apply("jaja xd q risa", "es-MX").text).toBe("jaja equis de que risa");
+    expect(rewriter.apply("Xd", "es-ES").text).toBe("Equis de");
+    expect(rewriter.apply("xd", "en-US").text).toBe("xd");
+    // Palabras completas: no toca "xdd" ni "queso"
+    expect(rewriter.apply("xdd queso", "es-MX").text).toBe("xdd queso");
+  });
+
+  it("creates, updates and deletes rules over HTTP", async () => {
+    const created = await request("POST", "/", { pattern: "nglmercer", replacement: "en ge ele mercer" });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ type: "word", caseSensitive: false, enabled: true });
+    const id = created.body.id;
+
+    const preview = await request("POST", "/preview", { text: "hola NGLmercer!!!!", voice: "en-US-AriaNeural" });
+    expect(preview.body.text).toBe("hola En ge ele mercer!!");
+    expect(preview.body.applied).toEqual([id]);
+
+    const disabled = await request("PUT", `/${id}`, { enabled: false });
+    expect(disabled.body.enabled).toBeFalse();
+    expect((await request("POST", "/preview", { text: "nglmercer" })).body.applied).toEqual([]);
+
+    expect((await request("DELETE", `/${id}`)).body).toEqual({ ok: true });
+    expect((await request("GET", `/${id}`)).status).toBe(404);
+  });
+
+  it("supports regex rules with capture groups", async () => {
+    const { body: rule } = await request("POST", "/", { type: "regex", pattern: "(\\d+)k\\b", replacement: "$1 mil" });
+    expect((await request("POST", "/preview", { text: "ya somos 10k", locale: "es" })).body.text).toBe("ya somos 10 mil");
+    await request("DELETE", `/${rule.id}`);
+  });
+
+  it("runs regex rules over the whole text in linear time", async () => {
+    const { body: rule } = await request("POST", "/", { type: "regex", pattern: "((a)|a)*b", replacement: "x" });
+    expect(rule.id).toBeString();
+    // Sin backtracking: muchas "a" sin "b" no bloquean
+    const start = performance.now();
+    expect(rewriter.apply("a".repeat(2000)).applied).toEqual([]);
+    expect(performance.now() - start).toBeLessThan(500);
+
+    const text = `ab ${"-".repeat(600)} ab`;
+    expect(rewriter.apply(text).text).toBe(`x ${"-".repeat(600)} x`);
+    await request("DELETE", `/${rule.id}`);
+  });
+
+  it("uses word replacements literally", async () => {
+    const { body: sensitive } = await request("POST", "/", { pattern: "usd", replacement: "$& $1 $$", caseSensitive: true });
+    const { body: insensitive } = await request("POST", "/", { pattern: "eur", replacement: "$&!" });
+    expect(rewriter.apply("5 usd y 3 eur").text).toBe("5 $& $1 $$ y 3 $&!");
+    await request("DELETE", `/${sensitive.id}`);
+    await request("DELETE", `/${insensitive.id}`);
+  });
+
+  it("seeds the default rules only when there is no backup", async () => {
+    const storage = tempStorage<RewriteRule[]>("rewrite-rules");
+
+    const first = new TextRewriter(storage);
+    await first.ready;
+    const xd = first.list().find(rule => rule.pattern === "xd")!;
+    expect(first.remove(xd.id)).toBeTrue();
+    await Bun.sleep(5);
+
+    // Al reiniciar la regla borrada no vuelve
+    const restarted = new TextRewriter(storage);
+    await restarted.ready;
+    expect(restarted.list().map(rule => rule.pattern)).toEqual(["q", "xq", "tmb"]);
+  });
+
+  it("validates rules", async () => {
+    expect((await request("POST", "/", { pattern: "", replacement: "x" })).status).toBe(400);
+    expect((await request("POST", "/", { type: "regex", pattern: "(a", replacement: "x" })).status).toBe(400);
+    expect((await request("POST", "/", { type: "regex", pattern: "(?<=a)b", replacement: "x" })).status).toBe(400);
+    expect((await request("POST", "/", { pattern: "a", replacement: "b", locale: "spanish" })).status).toBe(400);
+    expect((await request("PUT", "/missing", { enabled: true })).status).toBe(404);
+  });
+});
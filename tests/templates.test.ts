@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { createTemplateRoutes } from "../src/routes/templates";
+import { EventTemplateManager, type EventTemplate } from "../src/services/eventTemplates";
+import { createRequest, tempStorage } from "./helpers";
+
+describe("Event templates", () => {
+  let templates: EventTemplateManager;
+  let request: ReturnType<typeof createRequest>;
+
+  beforeEach(async () => {
+    templates = new EventTemplateManager(tempStorage("event-templates"));
+    await templates.ready;
+    request = createRequest(createTemplateRoutes(templates));
+  });
+
+  it("has defaults for chat, gifts and follows and falls back to chat", () => {
+    expect(templates.resolve("gift")).toMatchObject({ eventName: "gift", enabled: true });
+    expect(templates.resolve("join").enabled).toBeFalse();
+    expect(templates.resolve(undefined).eventName).toBe("chat");
+    expect(templates.resolve("somethingNew").eventName).toBe("chat");
+  });
+
+  it("renders gift events from the webhook body", async () => {
+    const res = await request("POST", "/preview", {
+      eventName: "gift",
+      body: { user: "Ana", data: { giftName: "Rosa", repeatCount: 5 } },
+    });
+    expect(res.body.text).toBe("Ana envió 5 Rosa");
+  });
+
+  it("edits, enables and resets templates", async () => {
+    const updated = await request("PUT", "/join", { enabled: true, template: "{user} llegó" });
+    expect(updated.body).toMatchObject({ eventName: "join", enabled: true, template: "{user} llegó" });
+    expect(templates.resolve("JOIN").enabled).toBeTrue();
+
+    const created = await request("PUT", "/raid", { template: "{user} trae una raid" });
+    expect(created.status).toBe(200);
+    expect((await request("GET", "/raid")).body.enabled).toBeTrue();
+
+    await request("DELETE", "/join");
+    expect(templates.resolve("join")).toMatchObject({ enabled: false, template: "{user} se unió" });
+    await request("DELETE", "/raid");
+    expect((await request("GET", "/raid")).status).toBe(404);
+  });
+
+  it("migrates templates saved with bare patterns", async () => {
+    const storage = tempStorage<Record<string, EventTemplate>>("event-templates");
+    await storage.save("data", {
+      gift: { eventName: "gift", template: "user envió repeatCount giftName a {user|upper}", enabled: true, updatedAt: new Date() },
+    });
+
+    const reloaded = new EventTemplateManager(storage);
+    await reloaded.ready;
+    expect(reloaded.get("gift")).toMatchObject({
+      template: "{user} envió {repeatCount} {giftName} a {user|upper}",
+      syntaxVersion: 2,
+    });
+  });
+
+  it("validates updates", async () => {
+    expect((await request("PUT", "/newevent", { enabled: true })).status).toBe(400);
+    expect((await request("PUT", "/gift", { template: "" })).status).toBe(400);
+    expect((await request("PUT", "/gift", { enabled: "yes" })).status).toBe(400);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { mkdtemp } from "fs/promises";
+import path from "path";
+import { tmpdir } from "os";
+import { DataStorage } from "json-obj-manager";
+import { JSONFile } from "json-obj-manager/node";
+import { UserVoiceManager, getUserKey, normalizeUserKey } from "../src/services/userVoices";
+import { voiceCatalog } from "../src/services/voiceCatalog";
+import { TTS_Config } from "../src/services/tts";
+
+const VOICES = ["es-PE-CamilaNeural", "es-MX-JorgeNeural", "en-US-AriaNeural"].map(ShortName => ({
+  Name: ShortName,
+  ShortName,
+  Gender: "Female",
+  Locale: ShortName.slice(0, 5),
+}));
+
+describe("UserVoiceManager", () => {
+  let tempRoot: string;
+  let getVoices: ReturnType<typeof spyOn>;
+  let fileCount = 0;
+
+  beforeAll(async () => {
+    tempRoot = await mkdtemp(path.join(tmpdir(), "ttsuservoices-"));
+    // Catálogo fijo: sin llamadas al proveedor
+    getVoices = spyOn(voiceCatalog, "getVoices").mockResolvedValue(VOICES);
+  });
+
+  afterAll(() => {
+    getVoices.mockRestore();
+  });
+
+  function newStorage() {
+    return new DataStorage<any>(new JSONFile(path.join(tempRoot, `user-voices-${++fileCount}.json`)));
+  }
+
+  it("normalizes user keys and prefers uniqueId over username and display name", () => {
+    expect(normalizeUserKey(" @Nick ")).toBe("nick");
+    expect(normalizeUserKey("  ")).toBeUndefined();
+    expect(getUserKey({ uniqueId: "@Ana_Live", username: "other", user: "Ana" })).toBe("ana_live");
+    expect(getUserKey({ user: "Ana" })).toBe("ana");
+    expect(getUserKey({})).toBeUndefined();
+  });
+
+  it("resolves manual, automatic and default voices in that order", async () => {
+    const manager = new UserVoiceManager(newStorage());
+    await manager.ready;
+
+    expect(manager.resolveVoice({ uniqueId: "ana" })).toEqual({ voice: TTS_Config.voice, source: "default", userKey: "ana" });
+
+    expect(await manager.setAutoAssign({ enabled: true, pool: ["es-mx-jorgeneural", "en-US-AriaNeural"] })).toEqual([]);
+    const auto = manager.resolveVoice({ uniqueId: "ana" });
+    expect(auto.source).toBe("auto");
+    expect(["es-MX-JorgeNeural", "en-US-AriaNeural"]).toContain(auto.voice);
+    // Determinista: el mismo usuario siempre recibe la misma voz
+    expect(manager.resolveVoice({ uniqueId: "@ANA" }).voice).toBe(auto.voice);
+
+    expect(await manager.set("@Ana", "es-pe-camilaneural")).toMatchObject({ userKey: "ana", voice: "es-PE-CamilaNeural" });
+    expect(manager.resolveVoice({ uniqueId: "ana" })).toEqual({ voice: "es-PE-CamilaNeural", source: "user", userKey: "ana" });
+
+    expect(await manager.remove("ana")).toBeTrue();
+    expect(await manager.remove("ana")).toBeFalse();
+    expect(manager.resolveVoice({ uniqueId: "ana" }).source).toBe("auto");
+  });
+
+  it("rejects unknown voices", async () => {
+    const manager = new UserVoiceManager(newStorage());
+    expect(await manager.set("ana", "xx-XX-NobodyNeural")).toBeNull();
+    expect(await manager.setAutoAssign({ pool: ["es-PE-CamilaNeural", "missing"] })).toEqual(["missing"]);
+    expect(manager.getAutoAssign().pool).toEqual([]);
+  });
+
+  it("keeps changes made while the backup is still loading", async () => {
+    const storage = newStorage();
+    await storage.save("data", {
+      assignments: { ana: { userKey: "ana", voice: "es-MX-JorgeNeural", updatedAt: new Date() } },
+      autoAssign: { enabled: false, pool: [] },
+    });
+
+    // set() antes de esperar a ready: no lo debe pisar la carga del backup
+    const manager = new UserVoiceManager(storage);
+    await manager.set("luis", "en-US-AriaNeural");
+    expect(manager.get("ana")?.voice).toBe("es-MX-JorgeNeural");
+    expect(manager.get("luis")?.voice).toBe("en-US-AriaNeural");
+
+    const reloaded = new UserVoiceManager(storage);
+    await reloaded.ready;
+    expect(reloaded.list().map(a => a.userKey).sort()).toEqual(["ana", "luis"]);
+  });
+
+  it("logs save errors instead of rejecting", async () => {
+    const failing = { load: async () => undefined, save: async () => { throw new Error("disk full"); } };
+    const manager = new UserVoiceManager(failing as any);
+    const consoleError = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      expect(await manager.set("ana", "es-PE-CamilaNeural")).not.toBeNull();
+      await Bun.sleep(0);
+      expect(consoleError).toHaveBeenCalledWith("Error saving user voices:", expect.any(Error));
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
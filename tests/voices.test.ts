@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, spyOn } from "bun:test";
+import { mkdtemp } from "fs/promises";
+import path from "path";
+import { tmpdir } from "os";
+import { DataStorage } from "json-obj-manager";
+import { JSONFileAdapter } from "json-obj-manager/node";
+import { VoiceCatalog, filterVoices, voiceCatalog } from "../src/services/voiceCatalog";
+import { ttsRegistry } from "../src/services/providers/registry";
+import { TTS_Config } from "../src/services/tts";
+import voiceRoutes from "../src/routes/voices";
+import type { TTSProvider, TTSVoice } from "../src/services/providers/types";
+
+function voice(ShortName: string, Gender: string, personalities: string[] = []): TTSVoice {
+  const Locale = ShortName.split("-").slice(0, 2).join("-");
+  return { Name: ShortName, ShortName, Gender, Locale, VoiceTag: { VoicePersonalities: personalities } };
+}
+
+const VOICES = [
+  voice("es-PE-CamilaNeural", "Female", ["Friendly"]),
+  voice("es-MX-JorgeNeural", "Male", ["Calm"]),
+  voice("en-US-AriaNeural", "Female", ["Friendly", "Positive"]),
+  voice("es-ES-ElviraNeural", "Female"),
+];
+
+// Proveedor de prueba con su propia lista de voces
+const stubProvider: TTSProvider = {
+  name: "stub-voices",
+  formats: [{ id: "mp3", mimeType: "audio/mpeg" }],
+  async synthesize() {
+    throw new Error("not used");
+  },
+  async listVoices() {
+    return [voice("fr-FR-DeniseNeural", "Female"), voice("fr-CA-JeanNeural", "Male")];
+  },
+};
+
+describe("Voice catalog", () => {
+  let tempRoot: string;
+  let originalProvider: string;
+
+  beforeAll(async () => {
+    tempRoot = await mkdtemp(path.join(tmpdir(), "ttsvoices-"));
+    originalProvider = TTS_Config.ttsprovider;
+    ttsRegistry.register(stubProvider);
+  });
+
+  afterAll(() => {
+    TTS_Config.ttsprovider = originalProvider;
+    ttsRegistry.unregister(stubProvider.name);
+  });
+
+  afterEach(() => {
+    TTS_Config.ttsprovider = originalProvider;
+  });
+
+  function isolatedCatalog(file: string) {
+    const storage = new DataStorage<TTSVoice[]>(new JSONFileAdapter(path.join(tempRoot, file)));
+    return { storage, catalog: new VoiceCatalog(60_000, storage) };
+  }
+
+  it("filters by language, gender, personality and prefix", () => {
+    const names = (query: object) => filterVoices(VOICES, query).map(v => v.ShortName);
+
+    expect(names({ locale: "es" })).toEqual(["es-PE-CamilaNeural", "es-MX-JorgeNeural", "es-ES-ElviraNeural"]);
+    expect(names({ locale: "ES-mx" })).toEqual(["es-MX-JorgeNeural"]);
+    expect(names({ locale: "e" })).toEqual([]);
+    expect(names({ gender: "female", locale: "es" })).toEqual(["es-PE-CamilaNeural", "es-ES-ElviraNeural"]);
+    expect(names({ personality: "friendly" })).toEqual(["es-PE-CamilaNeural", "en-US-AriaNeural"]);
+    expect(names({ prefix: "en-" })).toEqual(["en-US-AriaNeural"]);
+  });
+
+  it("loads the voices of the configured provider and caches them", async () => {
+    TTS_Config.ttsprovider = stubProvider.name;
+    const { storage, catalog } = isolatedCatalog("provider-voices.json");
+
+    const french = await catalog.search({ locale: "fr", gender: "male" });
+    expect(french.map(v => v.ShortName)).toEqual(["fr-CA-JeanNeural"]);
+    expect(await storage.load("voices")).toHaveLength(2);
+    expect(catalog.isStale()).toBeFalse();
+    expect(await catalog.isKnownVoice("FR-FR-deniseneural")).toBeTrue();
+    expect(await catalog.isKnownVoice("es-PE-CamilaNeural")).toBeFalse();
+  });
+
+  it("uses the cached list and fails the refresh when the provider is unknown", async () => {
+    TTS_Config.ttsprovider = "missing-provider";
+    const { storage, catalog } = isolatedCatalog("cached-voices.json");
+    await storage.save("voices", VOICES);
+
+    expect((await catalog.search({ locale: "en" })).map(v => v.ShortName)).toEqual(["en-US-AriaNeural"]);
+    await expect(catalog.refresh()).rejects.toThrow('No TTS provider registered for "missing-provider"');
+  });
+
+  it("GET /api/voices applies the query filters", async () => {
+    const getVoices = spyOn(voiceCatalog, "getVoices").mockResolvedValue(VOICES);
+    try {
+      const res = await voiceRoutes.request("/?locale=es&gender=Female");
+      expect(res.status).toBe(200);
+      expect((await res.json()).map((v: TTSVoice) => v.ShortName)).toEqual(["es-PE-CamilaNeural", "es-ES-ElviraNeural"]);
+    } finally {
+      getVoices.mockRestore();
+    }
+  });
+
+  it("GET /api/voices?refresh=true returns 502 when the provider fails", async () => {
+    const refresh = spyOn(voiceCatalog, "refresh").mockRejectedValue(new Error("offline"));
+    try {
+      const res = await voiceRoutes.request("/?refresh=true");
+      expect(res.status).toBe(502);
+      expect((await res.json()).error).toBe("Failed to refresh voices");
+    } finally {
+      refresh.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { WSContext, createWSMessageEvent, type WSEvents } from "hono/ws";
+import { emitter } from "../src/Emitter";
+import { playbackQueue } from "../src/services/playbackQueue";
+import { createWsEvents } from "../src/ws/session";
+import { parseClientCommand, PROTOCOL_VERSION } from "../src/ws/protocol";
+import { connectionManager } from "../src/ws/connections";
+
+function createClient(version: 0 | 1 = 1, remoteAddress?: string) {
+  const sent: string[] = [];
+  const state = { readyState: 1 as 0 | 1 | 2 | 3 };
+  const ws = new WSContext({
+    send: (data) => { sent.push(String(data)); },
+    close: () => { state.readyState = 3; },
+    get readyState() { return state.readyState; },
+  });
+  const events = createWsEvents(version, { remoteAddress }) as Required<WSEvents>;
+  events.onOpen(new Event("open"), ws);
+  return {
+    sent,
+    frames: () => sent.map((s) => JSON.parse(s)),
+    last: () => JSON.parse(sent[sent.length - 1]),
+    send: (data: unknown) =>
+      events.onMessage(createWSMessageEvent(typeof data === "string" ? data : JSON.stringify(data)), ws),
+    close: () => events.onClose(new CloseEvent("close"), ws),
+    drop: () => { state.readyState = 3; },
+  };
+}
+
+describe("WebSocket protocol", () => {
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    playbackQueue.clear();
+    playbackQueue.resume();
+    client = createClient();
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  it("greets v1 clients with the protocol version and events", () => {
+    const hello = client.frames()[0];
+    expect(hello.type).toBe("hello");
+    expect(hello.version).toBe(PROTOCOL_VERSION);
+    expect(hello.subscribed).toContain("text");
+  });
+
+  it("answers ping with pong echoing the requestId", () => {
+    client.send({ type: "ping", requestId: 7 });
+    const frame = client.last();
+    expect(frame.type).toBe("pong");
+    expect(frame.requestId).toBe(7);
+  });
+
+  it("wraps emitter text events in typed frames", () => {
+    emitter.emit("text", "hola");
+    expect(client.last()).toEqual({ v: PROTOCOL_VERSION, type: "text", text: "hola" });
+  });
+
+  it("only forwards subscribed events", () => {
+    client.send({ type: "subscribe", events: ["config-changed"] });
+    expect(client.last().type).toBe("subscribed");
+    const count = client.sent.length;
+    emitter.emit("text", "ignored");
+    expect(client.sent.length).toBe(count);
+  });
+
+  it("only counts clients subscribed to audio as playback listeners", () => {
+    expect(playbackQueue.hasListeners()).toBeTrue();
+    // Un panel que solo sigue los pendientes no es un overlay
+    client.send({ type: "subscribe", events: ["pending"] });
+    expect(playbackQueue.hasListeners()).toBeFalse();
+    client.send({ type: "subscribe", events: ["pending", "audio"] });
+    expect(playbackQueue.hasListeners()).toBeTrue();
+  });
+
+  it("pause and resume control the playback queue", () => {
+    client.send({ type: "pause", requestId: "p" });
+    expect(playbackQueue.isPaused()).toBeTrue();
+    const frames = client.frames();
+    expect(frames.some((f) => f.type === "queue-update" && f.paused === true)).toBeTrue();
+    expect(frames[frames.length - 1]).toMatchObject({ type: "ack", command: "pause", requestId: "p" });
+
+    client.send({ type: "resume" });
+    expect(playbackQueue.isPaused()).toBeFalse();
+  });
+
+  it("returns typed error frames for invalid messages", () => {
+    client.send("not json");
+    expect(client.last()).toMatchObject({ type: "error", code: "invalid_json" });
+
+    client.send({ type: "explode" });
+    expect(client.last()).toMatchObject({ type: "error", code: "unknown_command" });
+
+    client.send({ type: "subscribe", events: ["nope"], requestId: "r1" });
+    expect(client.last()).toMatchObject({ type: "error", code: "invalid_payload", requestId: "r1" });
+
+    client.send({ type: "skip", id: "missing" });
+    expect(client.last()).toMatchObject({ type: "error", code: "not_found" });
+  });
+
+  it("keeps the plain text format for legacy clients", () => {
+    const legacy = createClient(0);
+    emitter.emit("text", "hola");
+    expect(legacy.sent[legacy.sent.length - 1]).toBe("hola");
+    legacy.send("hi");
+    expect(legacy.sent[legacy.sent.length - 1]).toBe("Hello from server!");
+    legacy.close();
+  });
+
+  it("removes emitter listeners on close", () => {
+    const before = emitter.listenerCount("text");
+    const extra = createClient();
+    expect(emitter.listenerCount("text")).toBe(before + 1);
+    extra.close();
+    expect(emitter.listenerCount("text")).toBe(before);
+  });
+});
+
+describe("parseClientCommand", () => {
+  it("rejects unsupported protocol versions", () => {
+    const result = parseClientCommand(JSON.stringify({ v: 99, type: "ping" }));
+    expect(result.ok).toBeFalse();
+    if (!result.ok) expect(result.code).toBe("unsupported_version");
+  });
+
+  it("requires an id for played acks", () => {
+    expect(parseClientCommand({ type: "played" }).ok).toBeFalse();
+    expect(parseClientCommand({ type: "played", id: "a" }).ok).toBeTrue();
+  });
+});
+
+describe("ConnectionManager", () => {
+  it("lists live connections with address and topics", () => {
+    const client = createClient(1, "127.0.0.1");
+    const info = connectionManager.list().find((c) => c.remoteAddress === "127.0.0.1");
+    expect(info).toBeDefined();
+    expect(info!.version).toBe(1);
+    expect(info!.topics).toContain("audio");
+    expect(info!.connectedAt).toBeInstanceOf(Date);
+    client.close();
+    expect(connectionManager.list().some((c) => c.remoteAddress === "127.0.0.1")).toBeFalse();
+  });
+
+  it("prunes dead sockets and unresponsive clients", () => {
+    const before = emitter.listenerCount("text");
+    const dead = createClient(0);
+    const silent = createClient(1);
+    expect(emitter.listenerCount("text")).toBe(before + 2);
+
+    dead.drop();
+    expect(connectionManager.prune()).toBe(1);
+    expect(emitter.listenerCount("text")).toBe(before + 1);
+
+    // Sin respuesta al ping durante más del timeout
+    expect(connectionManager.prune(Date.now() + 10 * 60 * 1000)).toBe(1);
+    expect(emitter.listenerCount("text")).toBe(before);
+    expect(connectionManager.size()).toBe(0);
+    silent.close();
+  });
+
+  it("keeps clients that answer pings", () => {
+    const client = createClient(1);
+    connectionManager.ping();
+    expect(client.last().type).toBe("ping");
+    client.send({ type: "pong" });
+    expect(connectionManager.prune()).toBe(0);
+    client.close();
+  });
+});